@@ -1,10 +1,35 @@
 // Fix: The original App.tsx file contained invalid placeholder text.
 // It has been replaced with a fully functional root component for the application.
 // FIX: Import useState, useEffect, and useCallback from 'react' to resolve missing name errors.
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useGeminiLive, ConversationState } from './hooks/useGeminiLive';
-import { SettingsPanel, AppSettings } from './components/SettingsPanel';
+import { SettingsPanel, AppSettings, McpServer, VaultControls } from './components/SettingsPanel';
 import { ImmersiveVisualizer } from './components/ImmersiveVisualizer';
+import { LiveCaptions } from './components/LiveCaptions';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ToolInspector } from './components/ToolInspector';
+import { ToolConfirmation } from './components/ToolConfirmation';
+import { VaultUnlockModal } from './components/VaultUnlockModal';
+import { ChatInput } from './components/ChatInput';
+import { DEFAULT_TOOL_TIMEOUT_SEC } from './services/toolCalls';
+import { migrateToolSettingKeys } from './services/toolNames';
+import { DEFAULT_FRAME_SAMPLER_SETTINGS, frameBandwidth } from './services/frameSampler';
+import { showsReplyText } from './services/conversationModes';
+import { DEFAULT_AUDIO_DEVICE_SETTINGS } from './services/audioDevices';
+import {
+  VaultStatus,
+  applySecrets,
+  createVault,
+  extractSecrets,
+  getVaultStatus,
+  lockVault,
+  removeVault,
+  restoreVaultSession,
+  saveVaultSecrets,
+  setKnownSecrets,
+  unlockVault,
+} from './services/secretVault';
 
 const DEFAULT_SETTINGS: AppSettings = {
   apiKey: '',
@@ -13,22 +38,26 @@ const DEFAULT_SETTINGS: AppSettings = {
   connections: [],
   mcpServers: [],
   personality: '',
+  micChunkMs: 40,
+  showCaptions: true,
+  toolPolicies: {},
+  defaultToolTimeoutSec: DEFAULT_TOOL_TIMEOUT_SEC,
+  toolTimeouts: {},
+  videoFrames: DEFAULT_FRAME_SAMPLER_SETTINGS,
+  replyMode: 'voice',
+  textOnly: false,
+  micMode: 'open',
+  audioDevices: DEFAULT_AUDIO_DEVICE_SETTINGS,
 };
 
 function App() {
-  const {
-    conversationState,
-    isGeminiSpeaking,
-    isCameraActive,
-    errorMessage,
-    startConversation,
-    stopConversation,
-    toggleCamera,
-    activeVideoStream,
-  } = useGeminiLive();
-
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
 
   // Load settings from localStorage on initial render
   useEffect(() => {
@@ -36,45 +65,189 @@ function App() {
       const savedSettingsJson = localStorage.getItem('gemini-live-settings');
       if (savedSettingsJson) {
         const savedSettings = JSON.parse(savedSettingsJson);
-        setSettings(prevSettings => ({ ...DEFAULT_SETTINGS, ...savedSettings }));
+        setSettings(prevSettings => migrateToolSettingKeys({ ...DEFAULT_SETTINGS, ...savedSettings }));
       }
     } catch (error) {
       console.error('Failed to parse settings from localStorage:', error);
     }
+    // Secrets are kept in the vault: ask for the passphrase once per tab session.
+    if (getVaultStatus() !== 'locked') return;
+    restoreVaultSession().then(secrets => {
+      if (!secrets) {
+        setIsUnlockOpen(true);
+        return;
+      }
+      setSettings(prev => applySecrets(prev, secrets));
+      setVaultStatus('unlocked');
+    });
+  }, []);
+
+  useEffect(() => { setKnownSecrets(settings); }, [settings]);
+
+  // With a vault, secret fields are blanked in localStorage and encrypted separately. While the
+  // vault is locked they can't be written, so the encrypted copy is left as it is.
+  const persistSettings = useCallback(async (newSettings: AppSettings) => {
+    const status = getVaultStatus();
+    const { settings: withoutSecrets, secrets } = extractSecrets(newSettings);
+    if (status === 'unlocked') await saveVaultSecrets(secrets);
+    localStorage.setItem('gemini-live-settings', JSON.stringify(status === 'none' ? newSettings : withoutSecrets));
   }, []);
 
-  const handleSaveSettings = useCallback((newSettings: AppSettings) => {
+  // Conversations re-list MCP tools and record server health; keep those results.
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const handleMcpServerUpdate = useCallback((server: McpServer) => {
+    const current = settingsRef.current;
+    const next = {
+      ...current,
+      mcpServers: current.mcpServers.map(s => (s.id === server.id ? { ...server, toolPrefix: s.toolPrefix, pinnedResources: s.pinnedResources } : s)),
+    };
+    settingsRef.current = next;
+    setSettings(next);
+    persistSettings(next).catch(error => console.error('Failed to save settings:', error));
+  }, [persistSettings]);
+
+  const {
+    conversationState,
+    activity,
+    isCameraActive,
+    errorMessage,
+    transcript,
+    toolCalls,
+    replayToolCall,
+    pendingConfirmations,
+    resolveConfirmation,
+    startConversation,
+    sendText,
+    micMode,
+    isMicLive,
+    readAudioLevels,
+    startTalking,
+    stopTalking,
+    toggleMute,
+    stopConversation,
+    toggleCamera,
+    activeVideoStream,
+    videoStats,
+    isScreenSharing,
+    isScreenShareRequested,
+    screenStream,
+    toggleScreenShare,
+  } = useGeminiLive({ onMcpServerUpdate: handleMcpServerUpdate });
+
+  const handleSaveSettings = useCallback(async (newSettings: AppSettings) => {
     setSettings(newSettings);
     try {
-      localStorage.setItem('gemini-live-settings', JSON.stringify(newSettings));
+      await persistSettings(newSettings);
     } catch (error) {
-      console.error('Failed to save settings to localStorage:', error);
+      console.error('Failed to save settings:', error);
     }
     setIsSettingsOpen(false);
+  }, [persistSettings]);
+
+  const handleUnlock = useCallback(async (passphrase: string) => {
+    const secrets = await unlockVault(passphrase);
+    setSettings(prev => applySecrets(prev, secrets));
+    setVaultStatus('unlocked');
+    setIsUnlockOpen(false);
   }, []);
 
+  const vault: VaultControls = {
+    status: vaultStatus,
+    onCreate: async (passphrase, draftSettings) => {
+      await createVault(passphrase, extractSecrets(draftSettings).secrets);
+      setVaultStatus('unlocked');
+      setSettings(draftSettings);
+      await persistSettings(draftSettings);
+    },
+    onRequestUnlock: () => setIsUnlockOpen(true),
+    onLock: () => {
+      lockVault();
+      setVaultStatus('locked');
+      setSettings(prev => extractSecrets(prev).settings);
+    },
+    onRemove: (draftSettings) => {
+      // Unlocked: the secrets move back to plain storage. Locked: they are lost.
+      const plainSettings = getVaultStatus() === 'unlocked' ? draftSettings : extractSecrets(draftSettings).settings;
+      removeVault();
+      setVaultStatus('none');
+      setSettings(plainSettings);
+      persistSettings(plainSettings).catch(error => console.error('Failed to save settings:', error));
+    },
+  };
+
   const handleVisualizerClick = () => {
     if (
       conversationState === ConversationState.IDLE ||
       conversationState === ConversationState.ERROR
     ) {
+      if (vaultStatus === 'locked') {
+        setIsUnlockOpen(true);
+        return;
+      }
       startConversation(settings);
     } else {
       stopConversation();
     }
   };
 
+  // Keyboard shortcuts: hold Space to talk in push-to-talk mode, M to mute or unmute in toggle
+  // mode. Keys typed into a field (the chat input, settings) are left alone.
+  useEffect(() => {
+    if (!micMode || micMode === 'open') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      if (micMode === 'push-to-talk' && e.code === 'Space') {
+        e.preventDefault();
+        startTalking();
+      } else if (micMode === 'toggle' && e.code === 'KeyM') {
+        toggleMute();
+      }
+    };
+    // Released even when focus moved into a field while the key was held.
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (micMode === 'push-to-talk' && e.code === 'Space') stopTalking();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [micMode, startTalking, stopTalking, toggleMute]);
+
   const getStatusText = () => {
-    switch (conversationState) {
-      case ConversationState.IDLE:
+    // Prompts that need the user come before whatever the conversation is doing.
+    if (conversationState === ConversationState.ACTIVE) {
+      if (pendingConfirmations.length > 0) return 'Waiting for your approval...';
+      if (isScreenShareRequested) return 'Press the screen share button to share...';
+    }
+    switch (activity.phase) {
+      case 'idle':
         return 'Click to start';
-      case ConversationState.CONNECTING:
+      case 'connecting':
         return 'Connecting...';
-      case ConversationState.ACTIVE:
+      case 'user-speaking':
+        return 'Hearing you...';
+      case 'waiting':
+        return 'Thinking...';
+      case 'model-speaking':
+        return settings.replyMode === 'text' ? 'Writing...' : 'Speaking...';
+      case 'running-tool':
+        return `Running ${activity.runningTools.map(tool => tool.name).join(', ')}...`;
+      case 'listening':
+        if (isScreenSharing) return 'Watching your screen...';
         if (isCameraActive) return 'Visual analysis active...';
-        if (isGeminiSpeaking) return 'Speaking...';
-        return 'Listening...';
-      case ConversationState.ERROR:
+        if (micMode === 'push-to-talk' && !isMicLive) return 'Hold Space to talk...';
+        if (micMode === 'toggle' && !isMicLive) return 'Muted';
+        return micMode ? 'Listening...' : 'Type a message...';
+      case 'reconnecting':
+        return 'Reconnecting…';
+      case 'error':
         return 'Error';
       default:
         return '';
@@ -83,6 +256,39 @@ function App() {
 
   return (
     <div className="bg-black text-white w-screen h-screen flex flex-col items-center justify-center font-sans overflow-hidden relative">
+      <div className="absolute top-6 left-6 z-20 flex space-x-3">
+        <button
+          onClick={() => setIsTranscriptOpen(true)}
+          className="p-3 bg-gray-800 bg-opacity-70 rounded-full hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+          aria-label="Open transcript"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h8M8 14h5m-9 6l2.5-3H18a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v14z" />
+          </svg>
+        </button>
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="p-3 bg-gray-800 bg-opacity-70 rounded-full hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+          aria-label="Open conversation history"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+        <button
+          onClick={() => setIsInspectorOpen(true)}
+          className="relative p-3 bg-gray-800 bg-opacity-70 rounded-full hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-white"
+          aria-label="Open tool call inspector"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+          </svg>
+          {toolCalls.some(call => call.status === 'running' || call.status === 'awaiting-approval') && (
+            <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-blue-400 animate-pulse" />
+          )}
+        </button>
+      </div>
+
       <div className="absolute top-6 right-6 z-20">
         <button
           onClick={() => setIsSettingsOpen(true)}
@@ -104,23 +310,77 @@ function App() {
             onClick={handleVisualizerClick}
             onCameraToggle={toggleCamera}
             cameraStream={activeVideoStream}
+            isScreenSharing={isScreenSharing}
+            isScreenShareRequested={isScreenShareRequested}
+            onScreenShareToggle={toggleScreenShare}
+            screenStream={screenStream}
+            micMode={micMode}
+            isMicLive={isMicLive}
+            onTalkStart={startTalking}
+            onTalkEnd={stopTalking}
+            onMuteToggle={toggleMute}
+            activity={activity}
+            readAudioLevels={readAudioLevels}
           />
         </div>
       </div>
 
-      <div className="absolute bottom-10 text-center px-4">
+      <ToolConfirmation pending={pendingConfirmations} onResolve={resolveConfirmation} />
+
+      <div className="absolute bottom-10 text-center px-4 w-full">
+        {(settings.showCaptions || showsReplyText(settings.replyMode)) && conversationState !== ConversationState.IDLE && (
+          <div className="mb-4">
+            <LiveCaptions transcript={transcript} />
+          </div>
+        )}
+        {(conversationState === ConversationState.ACTIVE || conversationState === ConversationState.RECONNECTING) && (
+          <div className="mb-4">
+            <ChatInput disabled={conversationState !== ConversationState.ACTIVE} onSend={sendText} />
+          </div>
+        )}
         <p className="text-lg text-gray-300 capitalize h-7">{getStatusText()}</p>
+        {videoStats && (
+          <p className="text-xs text-gray-500 mt-1">
+            {videoStats.width}×{videoStats.height} · {videoStats.framesSent} frames sent, {videoStats.framesSkipped} unchanged skipped · {(frameBandwidth(videoStats) / 1024).toFixed(1)} KB/s
+          </p>
+        )}
         {errorMessage && (
           <p className="text-sm text-red-500 mt-2 max-w-md mx-auto">{errorMessage}</p>
         )}
       </div>
 
+      <TranscriptPanel
+        isOpen={isTranscriptOpen}
+        transcript={transcript}
+        onClose={() => setIsTranscriptOpen(false)}
+      />
+
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
+
+      <ToolInspector
+        isOpen={isInspectorOpen}
+        toolCalls={toolCalls}
+        canReplay={conversationState === ConversationState.ACTIVE}
+        onReplay={replayToolCall}
+        onClose={() => setIsInspectorOpen(false)}
+      />
+
       <SettingsPanel
         isOpen={isSettingsOpen}
         currentSettings={settings}
+        vault={vault}
         onClose={() => setIsSettingsOpen(false)}
         onSave={handleSaveSettings}
       />
+
+      <VaultUnlockModal
+        isOpen={isUnlockOpen}
+        onUnlock={handleUnlock}
+        onClose={() => setIsUnlockOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+
+interface ChatInputProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+// Typed turns for the running session, for URLs, codes and names speech recognition gets wrong.
+export const ChatInput: React.FC<ChatInputProps> = ({ disabled, onSend }) => {
+  const [text, setText] = useState('');
+
+  const handleSend = () => {
+    const trimmed = text.trim();
+    if (!trimmed || disabled) return;
+    onSend(trimmed);
+    setText('');
+  };
+
+  return (
+    <div className="max-w-xl mx-auto flex items-center space-x-2">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') handleSend(); }}
+        placeholder="Type a message..."
+        aria-label="Message"
+        className="flex-grow min-w-0 px-4 py-2 bg-gray-800 bg-opacity-70 text-white placeholder-gray-500 rounded-full focus:outline-none focus:ring-2 focus:ring-white"
+      />
+      <button
+        onClick={handleSend}
+        disabled={disabled || !text.trim()}
+        className="p-2 bg-white text-black rounded-full hover:bg-gray-200 disabled:bg-gray-600 disabled:text-gray-400 focus:outline-none focus:ring-2 focus:ring-white"
+        aria-label="Send message"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React from 'react';
+import { Connection } from './SettingsPanel';
+import {
+  HTTP_METHODS,
+  HttpMethod,
+  WEBHOOK_PARAMETER_TYPES,
+  WebhookHeader,
+  WebhookParameter,
+  WebhookParameterType,
+  getWebhookParameters,
+  parseSelector,
+} from '../services/webhook';
+import { sanitizeToolName } from '../services/toolNames';
+
+export type ConnectionDraft = Omit<Connection, 'id' | 'type'>;
+
+export const EMPTY_CONNECTION_DRAFT: ConnectionDraft = { name: '', description: '', url: '', method: 'POST' };
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/** Returns a problem with the draft, or null when it can be saved. */
+export const validateConnectionDraft = (draft: ConnectionDraft): string | null => {
+  if (!draft.name.trim() || !draft.description.trim() || !draft.url.trim()) {
+    return 'Name, description and URL are required.';
+  }
+  const names = new Set<string>();
+  for (const param of getWebhookParameters(draft)) {
+    if (!PARAMETER_NAME.test(param.name)) return `'${param.name || '(empty)'}' is not a valid parameter name.`;
+    if (names.has(param.name)) return `The parameter '${param.name}' is defined twice.`;
+    names.add(param.name);
+  }
+  if (draft.responseSelector && draft.responseSelector.trim()) {
+    try {
+      parseSelector(draft.responseSelector);
+    } catch (e) {
+      return (e as Error).message;
+    }
+  }
+  return null;
+};
+
+/** Trims the draft's fields and drops empty headers and enum values. */
+export const normalizeConnectionDraft = (draft: ConnectionDraft): ConnectionDraft => ({
+  ...draft,
+  name: sanitizeToolName(draft.name),
+  description: draft.description.trim(),
+  url: draft.url.trim(),
+  headers: draft.headers?.filter(h => h.name.trim()).map(h => ({ name: h.name.trim(), value: h.value })),
+  parameters: draft.parameters?.map(p => {
+    const values = p.enum?.map(v => v.trim()).filter(Boolean);
+    return { ...p, description: p.description.trim(), enum: p.type === 'string' && values && values.length > 0 ? values : undefined };
+  }),
+  bodyTemplate: draft.bodyTemplate?.trim() ? draft.bodyTemplate : undefined,
+  responseSelector: draft.responseSelector?.trim() || undefined,
+});
+
+interface ConnectionEditorProps {
+  value: ConnectionDraft;
+  onChange: (draft: ConnectionDraft) => void;
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md focus:ring-black focus:border-black';
+const smallInputClass = 'p-1 text-sm border border-gray-300 rounded-md focus:ring-black focus:border-black';
+
+// Form for a webhook connection: what the model sees (name, description, parameters) and how
+// the call is made (method, URL, headers, body template, response selector).
+export const ConnectionEditor: React.FC<ConnectionEditorProps> = ({ value, onChange }) => {
+  const method = value.method || 'POST';
+  const headers = value.headers || [];
+  // Older connections have no parameter list; editing one starts from the implicit `query`.
+  const parameters = getWebhookParameters(value);
+  const hasBody = method === 'POST' || method === 'PUT' || method === 'PATCH';
+
+  const update = (patch: Partial<ConnectionDraft>) => onChange({ ...value, ...patch });
+
+  const updateHeader = (index: number, patch: Partial<WebhookHeader>) =>
+    update({ headers: headers.map((h, i) => (i === index ? { ...h, ...patch } : h)) });
+
+  const updateParameter = (index: number, patch: Partial<WebhookParameter>) =>
+    update({ parameters: parameters.map((p, i) => (i === index ? { ...p, ...patch } : p)) });
+
+  return (
+    <div className="space-y-3">
+      <input type="text" placeholder="Function Name (e.g. getWeather)" value={value.name} onChange={(e) => update({ name: e.target.value })}
+        className={inputClass} />
+      <textarea placeholder="Description for AI (e.g. gets the weather for a city)" value={value.description} onChange={(e) => update({ description: e.target.value })}
+        className={`${inputClass} h-20`} />
+      <div className="flex space-x-2">
+        <select value={method} onChange={(e) => update({ method: e.target.value as HttpMethod })}
+          className="p-2 border border-gray-300 rounded-md bg-white focus:ring-black focus:border-black" aria-label="HTTP method">
+          {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <input type="url" placeholder="Webhook URL, may use {{param}}" value={value.url} onChange={(e) => update({ url: e.target.value })}
+          className={`flex-grow ${inputClass}`} />
+      </div>
+
+      {/* Parameters */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h5 className="text-sm font-medium text-gray-600">Parameters</h5>
+          <button
+            onClick={() => update({ parameters: [...parameters, { name: '', type: 'string', description: '', required: false }] })}
+            className="text-sm text-black hover:underline"
+          >
+            + Add parameter
+          </button>
+        </div>
+        {parameters.length === 0 && <p className="text-xs text-gray-500">The model calls this tool without arguments.</p>}
+        {parameters.map((param, index) => (
+          <div key={index} className="p-2 bg-white rounded-md border border-gray-200 space-y-1">
+            <div className="flex items-center space-x-2">
+              <input type="text" placeholder="name" value={param.name} onChange={(e) => updateParameter(index, { name: e.target.value })}
+                className={`flex-grow min-w-0 ${smallInputClass}`} />
+              <select value={param.type} onChange={(e) => updateParameter(index, { type: e.target.value as WebhookParameterType })}
+                className={`bg-white ${smallInputClass}`} aria-label="Parameter type">
+                {WEBHOOK_PARAMETER_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input type="checkbox" checked={param.required} onChange={(e) => updateParameter(index, { required: e.target.checked })} />
+                <span>required</span>
+              </label>
+              <button onClick={() => update({ parameters: parameters.filter((_, i) => i !== index) })} className="text-sm text-red-600 hover:underline">
+                Remove
+              </button>
+            </div>
+            <input type="text" placeholder="Description for AI" value={param.description} onChange={(e) => updateParameter(index, { description: e.target.value })}
+              className={`w-full ${smallInputClass}`} />
+            {param.type === 'string' && (
+              <input type="text" placeholder="Allowed values, comma separated (optional)" value={param.enum?.join(', ') || ''}
+                onChange={(e) => updateParameter(index, { enum: e.target.value ? e.target.value.split(',').map(v => v.trimStart()) : undefined })}
+                className={`w-full ${smallInputClass}`} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Headers */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h5 className="text-sm font-medium text-gray-600">Headers</h5>
+          <button onClick={() => update({ headers: [...headers, { name: '', value: '' }] })} className="text-sm text-black hover:underline">
+            + Add header
+          </button>
+        </div>
+        {headers.map((header, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input type="text" placeholder="Header" value={header.name} onChange={(e) => updateHeader(index, { name: e.target.value })}
+              className={`w-1/3 ${smallInputClass}`} />
+            <input type="text" placeholder="Value" value={header.value} onChange={(e) => updateHeader(index, { value: e.target.value })}
+              className={`flex-grow min-w-0 ${smallInputClass}`} />
+            <button onClick={() => update({ headers: headers.filter((_, i) => i !== index) })} className="text-sm text-red-600 hover:underline">
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {hasBody ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">Body template</label>
+          <textarea placeholder={'{"q": "{{query}}"}  (empty sends all arguments as JSON)'} value={value.bodyTemplate || ''}
+            onChange={(e) => update({ bodyTemplate: e.target.value })}
+            className={`${inputClass} h-20 font-mono text-xs`} />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Arguments not used in the URL are sent as query parameters.</p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">Response selector</label>
+        <input type="text" placeholder="$.data.items[0].title  (empty returns the whole response)" value={value.responseSelector || ''}
+          onChange={(e) => update({ responseSelector: e.target.value })}
+          className={`${inputClass} font-mono text-xs`} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ConversationRecord, deleteConversation, listConversations, matchesSearch } from '../services/historyStore';
+import { conversationToJson, conversationToMarkdown, downloadFile, exportFilename, formatDuration } from '../services/historyExport';
+import { TranscriptList } from './TranscriptList';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// First thing the user said, used as the list item title
+const getPreview = (record: ConversationRecord) =>
+  record.transcript.find(entry => entry.role === 'user')?.text.trim() || '(No speech transcribed)';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
+  const [records, setRecords] = useState<ConversationRecord[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<ConversationRecord | null>(null);
+  const [recordToDelete, setRecordToDelete] = useState<ConversationRecord | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+    listConversations()
+      .then(setRecords)
+      .catch(e => {
+        console.error('Failed to load conversation history:', e);
+        setError('Could not load the conversation history.');
+      });
+  }, [isOpen]);
+
+  const filtered = useMemo(() => records.filter(r => matchesSearch(r, search)), [records, search]);
+
+  const handleDelete = async (record: ConversationRecord) => {
+    try {
+      await deleteConversation(record.id);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+      if (selected?.id === record.id) setSelected(null);
+    } catch (e) {
+      console.error('Failed to delete conversation:', e);
+      setError('Could not delete the conversation.');
+    }
+    setRecordToDelete(null);
+  };
+
+  const handleExport = (record: ConversationRecord, format: 'md' | 'json') => {
+    if (format === 'md') {
+      downloadFile(exportFilename(record, 'md'), conversationToMarkdown(record), 'text/markdown');
+    } else {
+      downloadFile(exportFilename(record, 'json'), conversationToJson(record), 'application/json');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-60 z-40" onClick={onClose}></div>
+      <div className="fixed top-0 left-0 h-full w-full max-w-md bg-white text-gray-900 shadow-2xl z-50">
+        <div className="flex flex-col h-full">
+          <header className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-800">{selected ? 'Conversation' : 'History'}</h2>
+            <div className="flex items-center space-x-4">
+              {selected && <button onClick={() => setSelected(null)} className="text-sm text-black hover:underline">Back</button>}
+              <button onClick={onClose} className="text-sm text-black hover:underline">Close</button>
+            </div>
+          </header>
+
+          {selected ? (
+            <main className="flex-1 p-6 space-y-4 overflow-y-auto">
+              <div className="text-xs text-gray-500 space-y-1">
+                <p>{new Date(selected.startedAt).toLocaleString()} · {formatDuration(selected.durationMs)}</p>
+                <p>Voice: {selected.settings.voice} · Tools: {selected.settings.tools.join(', ') || 'none'}</p>
+              </div>
+              <div className="flex space-x-2">
+                <button onClick={() => handleExport(selected, 'md')} className="border border-gray-300 py-1 px-3 rounded-md text-sm hover:bg-gray-100">Export Markdown</button>
+                <button onClick={() => handleExport(selected, 'json')} className="border border-gray-300 py-1 px-3 rounded-md text-sm hover:bg-gray-100">Export JSON</button>
+                <button onClick={() => setRecordToDelete(selected)} className="text-sm text-red-600 hover:underline ml-auto">Delete</button>
+              </div>
+              <TranscriptList transcript={selected.transcript} />
+            </main>
+          ) : (
+            <main className="flex-1 p-6 space-y-4 overflow-y-auto">
+              <input
+                type="search"
+                placeholder="Search conversations..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black"
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {filtered.length === 0 ? (
+                <p className="text-sm text-gray-500">{records.length === 0 ? 'No conversations saved yet.' : 'No conversations match your search.'}</p>
+              ) : (
+                <div className="space-y-2">
+                  {filtered.map(record => (
+                    <div key={record.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md border border-gray-200">
+                      <button onClick={() => setSelected(record)} className="flex-1 overflow-hidden text-left">
+                        <p className="font-semibold text-gray-800 truncate">{getPreview(record)}</p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(record.startedAt).toLocaleString()} · {formatDuration(record.durationMs)} · {record.transcript.length} entries
+                        </p>
+                      </button>
+                      <div className="flex items-center space-x-2 ml-2">
+                        <button onClick={() => handleExport(record, 'md')} className="text-sm text-black hover:underline">MD</button>
+                        <button onClick={() => handleExport(record, 'json')} className="text-sm text-black hover:underline">JSON</button>
+                        <button onClick={() => setRecordToDelete(record)} className="text-sm text-red-600 hover:underline">Delete</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </main>
+          )}
+        </div>
+      </div>
+
+      {recordToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+          <div className="bg-white text-gray-900 rounded-lg shadow-xl p-6">
+            <h3 className="text-lg font-semibold mb-4">Confirm Deletion</h3>
+            <p>Delete the conversation from {new Date(recordToDelete.startedAt).toLocaleString()}?</p>
+            <div className="mt-6 flex justify-end space-x-4">
+              <button onClick={() => setRecordToDelete(null)} className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100">Cancel</button>
+              <button onClick={() => handleDelete(recordToDelete)} className="bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">Delete</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,5 +1,8 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import { ConversationState } from '../hooks/useGeminiLive';
+import { MicMode } from '../services/conversationModes';
+import { AudioLevels, LEVEL_BANDS, smoothLevel } from '../services/audioLevels';
+import { ConversationActivity, RunningTool } from '../services/conversationActivity';
 
 interface ImmersiveVisualizerProps {
   state: ConversationState;
@@ -7,8 +10,54 @@ interface ImmersiveVisualizerProps {
   onClick: () => void;
   onCameraToggle: () => void;
   cameraStream: MediaStream | null;
+  isScreenSharing: boolean;
+  isScreenShareRequested: boolean; // The model asked to see the screen; the browser needs a click
+  onScreenShareToggle: () => void;
+  screenStream: MediaStream | null;
+  micMode: MicMode | null; // null when the conversation doesn't use the microphone
+  isMicLive: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  onMuteToggle: () => void;
+  activity: ConversationActivity;
+  readAudioLevels: () => AudioLevels; // Polled every frame while the conversation runs
 }
 
+const SPHERE_RADIUS = 100;
+// Droplets sit just inside the sphere and push out with their frequency band; the gooey filter
+// melts them into ripples on the surface.
+const DROPLET_RADIUS = 22;
+const DROPLET_REACH = 45;
+// Levels are read and drawn at a steady 30 FPS whatever the display's refresh rate.
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+// Tool satellites fan out along the upper left, away from the buttons below the sphere.
+const MAX_TOOL_SATELLITES = 6;
+const TOOL_SATELLITE_DISTANCE = 170;
+const MAX_TOOL_LABEL_LENGTH = 18;
+
+const toolSatellitePosition = (index: number) => {
+  const angle = -Math.PI * 0.95 + index * (Math.PI * 0.7 / (MAX_TOOL_SATELLITES - 1));
+  return { x: Math.cos(angle) * TOOL_SATELLITE_DISTANCE, y: Math.sin(angle) * TOOL_SATELLITE_DISTANCE };
+};
+
+const toolLabel = (tool: RunningTool) =>
+  tool.name.length > MAX_TOOL_LABEL_LENGTH ? `${tool.name.slice(0, MAX_TOOL_LABEL_LENGTH - 1)}…` : tool.name;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const usePrefersReducedMotion = (): boolean => {
+  const [reduced, setReduced] = useState<boolean>(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = () => setReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+  return reduced;
+};
+
 const getRandomPosition = (radius: number, distance: number) => {
   const angle = Math.random() * 2 * Math.PI;
   const x = Math.cos(angle) * (radius * distance);
@@ -22,12 +71,71 @@ export const ImmersiveVisualizer: React.FC<ImmersiveVisualizerProps> = ({
   onClick,
   onCameraToggle,
   cameraStream,
+  isScreenSharing,
+  isScreenShareRequested,
+  onScreenShareToggle,
+  screenStream,
+  micMode,
+  isMicLive,
+  onTalkStart,
+  onTalkEnd,
+  onMuteToggle,
+  activity,
+  readAudioLevels,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const isConversationActive = state === ConversationState.ACTIVE || state === ConversationState.CONNECTING;
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  const isConversationActive = state === ConversationState.ACTIVE || state === ConversationState.CONNECTING || state === ConversationState.RECONNECTING;
+  const isReconnecting = state === ConversationState.RECONNECTING;
 
   // Memoize random positions so they don't change on re-render unless the state dependency changes
   const cameraSatellitePosition = useMemo(() => getRandomPosition(120, 1.7), [isCameraActive]);
+  const screenSatellitePosition = useMemo(() => getRandomPosition(120, 1.7), [isScreenSharing]);
+  const canShareScreen = !!navigator.mediaDevices?.getDisplayMedia;
+  const hasMicButton = micMode === 'push-to-talk' || micMode === 'toggle';
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const isAudioReactive = isConversationActive && !prefersReducedMotion;
+
+  const sphereRef = useRef<SVGCircleElement>(null);
+  const dropletRefs = useRef<(SVGCircleElement | null)[]>([]);
+  const satelliteRefs = useRef<(SVGGElement | null)[]>([]);
+
+  // Drives the sphere from live levels: Gemini's voice swells it, the user's voice less so, and
+  // each frequency band pushes out a droplet. Writes attributes directly instead of re-rendering.
+  useEffect(() => {
+    if (!isAudioReactive) return;
+    const smoothed = { input: 0, output: 0, bands: new Array(LEVEL_BANDS).fill(0) };
+    let lastFrame = performance.now();
+    let frame = requestAnimationFrame(function tick(now: number) {
+      frame = requestAnimationFrame(tick);
+      const dt = now - lastFrame;
+      if (dt < FRAME_INTERVAL_MS - 1) return;
+      lastFrame = now;
+
+      const { input, output } = readAudioLevels();
+      // A stalled tab can come back after seconds; don't let one frame jump all the way.
+      const step = Math.min(dt, 100);
+      smoothed.input = smoothLevel(smoothed.input, input.level, step);
+      smoothed.output = smoothLevel(smoothed.output, output.level, step);
+      smoothed.bands = smoothed.bands.map((band, i) => smoothLevel(band, Math.max(input.bands[i], output.bands[i]), step));
+
+      sphereRef.current?.setAttribute('r', String(SPHERE_RADIUS * (1 + 0.18 * smoothed.output + 0.08 * smoothed.input)));
+      dropletRefs.current.forEach((droplet, i) => {
+        if (!droplet) return;
+        const angle = (i / LEVEL_BANDS) * 2 * Math.PI - Math.PI / 2;
+        const distance = SPHERE_RADIUS - DROPLET_RADIUS + smoothed.bands[i] * DROPLET_REACH;
+        droplet.setAttribute('cx', String(Math.cos(angle) * distance));
+        droplet.setAttribute('cy', String(Math.sin(angle) * distance));
+      });
+      const satelliteScale = `scale(${1 + 0.1 * Math.max(smoothed.input, smoothed.output)})`;
+      satelliteRefs.current.forEach(satellite => satellite?.setAttribute('transform', satelliteScale));
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      sphereRef.current?.setAttribute('r', String(SPHERE_RADIUS));
+      satelliteRefs.current.forEach(satellite => satellite?.removeAttribute('transform'));
+    };
+  }, [isAudioReactive, readAudioLevels]);
 
   useEffect(() => {
     if (isCameraActive && cameraStream && videoRef.current) {
@@ -39,11 +147,31 @@ export const ImmersiveVisualizer: React.FC<ImmersiveVisualizerProps> = ({
       videoRef.current.srcObject = null;
     }
   }, [isCameraActive, cameraStream]);
+
+  // The hook owns the screen stream's tracks; this only attaches and detaches the preview.
+  useEffect(() => {
+    if (!screenVideoRef.current) return;
+    screenVideoRef.current.srcObject = isScreenSharing ? screenStream : null;
+    if (isScreenSharing && screenStream) {
+      screenVideoRef.current.play().catch(e => console.error("Screen preview play failed:", e));
+    }
+  }, [isScreenSharing, screenStream]);
   
-  const mainSphereAnimation = isConversationActive ? 'animate-[surface-ripple-active_4s_ease-in-out_infinite]' : 'animate-[surface-ripple-idle_6s_ease-in-out_infinite]';
+  // While audio drives the sphere, the CSS ripple would fight it; it stays for the idle state.
+  const mainSphereAnimation = isAudioReactive ? '' : 'animate-[surface-ripple-idle_6s_ease-in-out_infinite] motion-reduce:animate-none';
+  const { phase } = activity;
+  // Without motion, a dimmer sphere is the only sign that Gemini isn't talking.
+  const sphereOpacity = isReconnecting ? 0.5
+    : phase === 'waiting' ? 0.85
+    : prefersReducedMotion && isConversationActive && phase !== 'model-speaking' ? 0.8
+    : 1;
+  const sphereFill = phase === 'error' ? '#f87171' : 'white';
+  // Dim while the mic is live, bright while the user is talking, hidden while muted.
+  const micRingOpacity = !isMicLive ? 0 : phase === 'user-speaking' ? 0.9 : 0.35;
+  const toolSatellites = activity.runningTools.slice(0, MAX_TOOL_SATELLITES);
   
   return (
-    <div className="w-full h-full cursor-pointer" onClick={onClick}>
+    <div className="relative w-full h-full cursor-pointer" onClick={onClick}>
       <svg width="100%" height="100%" viewBox="-300 -300 600 600">
         <defs>
           <filter id="gooey">
@@ -59,20 +187,24 @@ export const ImmersiveVisualizer: React.FC<ImmersiveVisualizerProps> = ({
 
         <g filter="url(#gooey)">
           {/* Main Sphere */}
-          <g className="animate-[breathing-hover_8s_ease-in-out_infinite]">
-              <circle cx="0" cy="0" r="100" fill="white" className={mainSphereAnimation} />
+          <g className="animate-[breathing-hover_8s_ease-in-out_infinite] motion-reduce:animate-none">
+              <circle ref={sphereRef} cx="0" cy="0" r={SPHERE_RADIUS} fill={sphereFill} className={mainSphereAnimation} style={{ opacity: sphereOpacity, transition: 'opacity 0.5s, fill 0.5s' }} />
+              {isAudioReactive && Array.from({ length: LEVEL_BANDS }, (_, i) => (
+                <circle key={i} ref={(el) => { dropletRefs.current[i] = el; }} cx="0" cy="0" r={DROPLET_RADIUS} fill="white" style={{ opacity: isReconnecting ? 0.5 : 1 }} />
+              ))}
           </g>
 
           {/* Camera Satellite */}
           {isCameraActive && (
-            <g className="animate-[emerge_0.7s_ease-out_forwards]" onClick={(e) => { e.stopPropagation(); onCameraToggle(); }}>
+            <g className="animate-[emerge_0.7s_ease-out_forwards] motion-reduce:animate-none" onClick={(e) => { e.stopPropagation(); onCameraToggle(); }}>
                 <line
                     x1={0} y1={0}
                     x2={cameraSatellitePosition.x} y2={cameraSatellitePosition.y}
                     stroke="white"
-                    className="animate-[filament-pulse_1.5s_ease-in-out_infinite]"
+                    className="animate-[filament-pulse_1.5s_ease-in-out_infinite] motion-reduce:animate-none"
                 />
                 <g style={{ transform: `translate(${cameraSatellitePosition.x}px, ${cameraSatellitePosition.y}px)` }}>
+                  <g ref={(el) => { satelliteRefs.current[0] = el; }}>
                      {/* The circle for the gooey effect. No longer has opacity="0" */}
                     <circle cx="0" cy="0" r="60" fill="white" />
                     <foreignObject x="-60" y="-60" width="120" height="120">
@@ -87,11 +219,126 @@ export const ImmersiveVisualizer: React.FC<ImmersiveVisualizerProps> = ({
                         />
                       </div>
                     </foreignObject>
+                  </g>
                 </g>
             </g>
           )}
+
+          {/* Screen Share Satellite */}
+          {isScreenSharing && (
+            <g className="animate-[emerge_0.7s_ease-out_forwards] motion-reduce:animate-none" onClick={(e) => { e.stopPropagation(); onScreenShareToggle(); }}>
+                <line
+                    x1={0} y1={0}
+                    x2={screenSatellitePosition.x} y2={screenSatellitePosition.y}
+                    stroke="white"
+                    className="animate-[filament-pulse_1.5s_ease-in-out_infinite] motion-reduce:animate-none"
+                />
+                <g style={{ transform: `translate(${screenSatellitePosition.x}px, ${screenSatellitePosition.y}px)` }}>
+                  <g ref={(el) => { satelliteRefs.current[1] = el; }}>
+                    <rect x="-80" y="-50" width="160" height="100" rx="16" fill="white" />
+                    <foreignObject x="-80" y="-50" width="160" height="100">
+                      <div style={{ width: '160px', height: '100px', borderRadius: '16px', overflow: 'hidden' }}>
+                        <video
+                            ref={screenVideoRef}
+                            width="160"
+                            height="100"
+                            muted
+                            playsInline
+                            style={{ objectFit: 'contain', width: '100%', height: '100%', background: 'black', animation: 'clarify 1.5s ease-out forwards' }}
+                        />
+                      </div>
+                    </foreignObject>
+                  </g>
+                </g>
+            </g>
+          )}
+
+          {/* Tool Satellites: one per call in progress */}
+          {toolSatellites.map((tool, i) => {
+            const position = toolSatellitePosition(i);
+            return (
+              <g key={tool.id} className="animate-[emerge_0.7s_ease-out_forwards] motion-reduce:animate-none">
+                <line x1={0} y1={0} x2={position.x} y2={position.y} stroke="white"
+                  className="animate-[filament-pulse_1.5s_ease-in-out_infinite] motion-reduce:animate-none" />
+                <circle cx={position.x} cy={position.y} r="26" fill="white" className="animate-pulse motion-reduce:animate-none" />
+              </g>
+            );
+          })}
         </g>
+
+        {/* Labels and rings sit outside the gooey filter so they stay crisp */}
+        {toolSatellites.map((tool, i) => {
+          const position = toolSatellitePosition(i);
+          return (
+            <text key={tool.id} x={position.x} y={position.y + 48} textAnchor="middle" fill="white" fontSize="16" style={{ opacity: 0.8 }}>
+              {toolLabel(tool)}
+            </text>
+          );
+        })}
+
+        {/* Thinking: a slow dashed orbit while waiting for the model */}
+        {phase === 'waiting' && (
+          <circle
+            cx="0" cy="0" r="140"
+            fill="none"
+            stroke="white"
+            strokeWidth="2"
+            strokeDasharray="6 14"
+            className="animate-[spin_6s_linear_infinite] motion-reduce:animate-none"
+            style={{ opacity: 0.6 }}
+          />
+        )}
+
+        {/* Mic live ring */}
+        {isConversationActive && micMode && (
+          <circle
+            cx="0" cy="0" r="116"
+            fill="none"
+            stroke="white"
+            strokeWidth="3"
+            style={{ opacity: micRingOpacity, transition: 'opacity 0.2s' }}
+          />
+        )}
       </svg>
+
+      <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-full flex space-x-3">
+      {/* Push-to-talk (hold) or mute toggle */}
+      {isConversationActive && hasMicButton && (
+        <button
+          onClick={(e) => { e.stopPropagation(); if (micMode === 'toggle') onMuteToggle(); }}
+          onPointerDown={(e) => { if (micMode !== 'push-to-talk') return; e.currentTarget.setPointerCapture(e.pointerId); onTalkStart(); }}
+          onPointerUp={() => { if (micMode === 'push-to-talk') onTalkEnd(); }}
+          onPointerCancel={() => { if (micMode === 'push-to-talk') onTalkEnd(); }}
+          className={`p-3 rounded-full transition-colors select-none touch-none focus:outline-none focus:ring-2 focus:ring-white ${
+            isMicLive ? 'bg-white text-black hover:bg-gray-200' : 'bg-gray-800 bg-opacity-70 text-white hover:bg-gray-700'
+          }`}
+          aria-label={micMode === 'push-to-talk' ? 'Hold to talk' : isMicLive ? 'Mute the microphone' : 'Unmute the microphone'}
+          aria-pressed={isMicLive}
+          title={micMode === 'push-to-talk' ? 'Hold to talk (or hold Space)' : 'Mute or unmute (M)'}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+            {!isMicLive && <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4l16 16" />}
+          </svg>
+        </button>
+      )}
+
+      {/* Manual screen share toggle */}
+      {isConversationActive && canShareScreen && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onScreenShareToggle(); }}
+          className={`p-3 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-white ${
+            isScreenSharing ? 'bg-white text-black hover:bg-gray-200' : 'bg-gray-800 bg-opacity-70 text-white hover:bg-gray-700'
+          } ${isScreenShareRequested ? 'ring-2 ring-blue-400 animate-pulse' : ''}`}
+          aria-label={isScreenSharing ? 'Stop sharing the screen' : 'Share the screen'}
+          title={isScreenShareRequested ? 'Gemini asked to see your screen' : undefined}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+          </svg>
+        </button>
+      )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+import React from 'react';
+import { TranscriptEntry } from '../services/transcript';
+
+interface LiveCaptionsProps {
+  transcript: TranscriptEntry[];
+}
+
+// Shows the latest user and model lines, like subtitles.
+export const LiveCaptions: React.FC<LiveCaptionsProps> = ({ transcript }) => {
+  const spoken = transcript.filter(entry => entry.role !== 'tool');
+  const latest = spoken.slice(-2);
+
+  if (latest.length === 0) return null;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-1 text-center" aria-live="polite">
+      {latest.map(entry => (
+        <p
+          key={entry.id}
+          className={`text-base leading-snug ${entry.role === 'user' ? 'text-gray-400' : 'text-white'} ${entry.final ? 'opacity-80' : ''}`}
+        >
+          {entry.role === 'user' ? 'You: ' : ''}{entry.text.trim()}
+          {entry.interrupted && <span className="text-gray-500"> — interrupted</span>}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -1,23 +1,43 @@
-import React, { useState, useEffect } from 'react';
-import { GoogleGenAI, Type } from '@google/genai';
-
-export interface Connection {
+import React, { useState, useEffect, useMemo } from 'react';
+import { FunctionDeclaration, GoogleGenAI, Type } from '@google/genai';
+import { McpClient, McpPrompt, McpResource, McpTransport, inferTransport, isLocalHost, rewriteForLocalProxy } from '../services/mcpClient';
+import { WebhookRequestConfig, callWebhook, getWebhookParameters, sampleWebhookArgs } from '../services/webhook';
+import { VaultStatus, redactSecrets } from '../services/secretVault';
+import { DEFAULT_TOOL_TIMEOUT_SEC } from '../services/toolCalls';
+import { MCP_STATUS_LABELS, McpServerStatus, listMcpCatalog, refreshMcpServer, snapshotMcpServer } from '../services/mcpServers';
+import { promptMessagesToText, resourceLabel } from '../services/mcpResources';
+import { buildToolRegistry, exposedMcpToolName, mcpToolSettingsKey, reservedBuiltins, sanitizeToolPrefix, webhookSettingsKey } from '../services/toolNames';
+import { ConnectionDraft, ConnectionEditor, EMPTY_CONNECTION_DRAFT, normalizeConnectionDraft, validateConnectionDraft } from './ConnectionEditor';
+import { TOOL_POLICY_LABELS, ToolPolicies, ToolPolicy, getToolPolicy } from '../services/toolPolicy';
+import { FrameSamplerSettings } from '../services/frameSampler';
+import { AudioDeviceSettings, canSelectOutput, listAudioDevices, monitorMicrophone, playTestTone } from '../services/audioDevices';
+import { MIC_MODE_LABELS, MicMode, REPLY_MODE_LABELS, ReplyMode } from '../services/conversationModes';
+
+export interface Connection extends WebhookRequestConfig {
   id: string;
   name: string;
   description: string;
-  url: string;
   type?: 'webhook'; // Discriminator
 }
 
 export interface McpServer {
   id: string;
-  url: string; // The SSE URL
+  url: string; // The SSE URL, or the single Streamable HTTP endpoint
   postUrl: string; // The POST URL
+  transport?: McpTransport; // Missing on servers saved before transports were recorded
+  protocolVersion?: string; // Negotiated during initialize
   name: string;
-  status: 'connected' | 'error';
-  tools: any[]; // Cached tool definitions
+  status: McpServerStatus;
+  statusDetail?: string; // The error from the last failed check
+  lastCheckedAt?: number;
+  tools: FunctionDeclaration[]; // Cached tool definitions
+  resources?: McpResource[]; // Cached resource list, if the server offers resources
+  prompts?: McpPrompt[]; // Cached prompt list, if the server offers prompts
+  pinnedResources?: string[]; // URIs read at conversation start and added to the system instruction
+  schemaWarnings?: string[]; // Parts of the tools' JSON Schemas Gemini cannot express
   type?: 'mcp'; // Discriminator
   useCredentials?: boolean;
+  toolPrefix?: string; // Tools are declared as `${toolPrefix}__${name}`
 }
 
 export interface AppSettings {
@@ -27,52 +47,364 @@ export interface AppSettings {
   connections: Connection[];
   mcpServers: McpServer[];
   personality: string;
+  micChunkMs: number; // Microphone chunk length sent to Gemini
+  showCaptions: boolean;
+  toolPolicies: ToolPolicies; // Per tool name; tools without an entry are always allowed
+  defaultToolTimeoutSec: number;
+  toolTimeouts: Record<string, number>; // Seconds, per tool name; overrides the default
+  videoFrames: FrameSamplerSettings; // Camera and screen share frames sent to Gemini
+  replyMode: ReplyMode;
+  textOnly: boolean; // Start conversations without the microphone
+  micMode: MicMode;
+  audioDevices: AudioDeviceSettings;
+}
+
+export interface VaultControls {
+  status: VaultStatus;
+  onCreate: (passphrase: string, settings: AppSettings) => Promise<void>;
+  onRequestUnlock: () => void;
+  onLock: () => void;
+  onRemove: (settings: AppSettings) => void;
 }
 
 interface SettingsPanelProps {
   isOpen: boolean;
   currentSettings: AppSettings;
+  vault: VaultControls;
   onClose: () => void;
   onSave: (newSettings: AppSettings) => void;
 }
 
+const mcpStatusStyles: Record<McpServerStatus, string> = {
+  connected: 'text-green-600',
+  unreachable: 'text-red-600',
+  'auth-failed': 'text-amber-600',
+};
+
 const voices = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir'];
+const micChunkOptions = [20, 40, 100, 250];
+const videoDimensionOptions = [480, 768, 1024, 1536];
+const videoFpsOptions = [0.5, 1, 2, 4];
+const videoQualityOptions = [{ value: 0.4, label: 'Low' }, { value: 0.6, label: 'Medium' }, { value: 0.8, label: 'High' }];
+
+// --- Tool Policy Select ---
+const ToolPolicySelect: React.FC<{
+  policy: ToolPolicy;
+  onChange: (policy: ToolPolicy) => void;
+}> = ({ policy, onChange }) => (
+  <select
+    value={policy}
+    onChange={(e) => onChange(e.target.value as ToolPolicy)}
+    className="text-xs p-1 border border-gray-300 rounded-md bg-white focus:ring-black focus:border-black"
+    aria-label="Tool confirmation policy"
+  >
+    {(Object.keys(TOOL_POLICY_LABELS) as ToolPolicy[]).map(p => <option key={p} value={p}>{TOOL_POLICY_LABELS[p]}</option>)}
+  </select>
+);
+
+// --- Secret Storage Section ---
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultSection: React.FC<{
+  vault: VaultControls;
+  settings: AppSettings;
+}> = ({ vault, settings }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCreate = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    try {
+      await vault.onCreate(passphrase, settings);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
 
-// --- Helper to convert JSON Schema type to GenAI Type Enum ---
-const mapJsonTypeToGenAiType = (jsonType: string): Type => {
-  switch (jsonType) {
-    case 'string': return Type.STRING;
-    case 'number': return Type.NUMBER;
-    case 'integer': return Type.INTEGER;
-    case 'boolean': return Type.BOOLEAN;
-    case 'array': return Type.ARRAY;
-    case 'object': return Type.OBJECT;
-    default: return Type.STRING;
-  }
+  return (
+    <div className="space-y-4 pt-4 border-t border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-700">Secret Storage</h3>
+      {vault.status === 'none' && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">The API key and webhook header values are stored in plain text in this browser. Set a passphrase to encrypt them.</p>
+          <input type="password" placeholder="Passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-black focus:border-black" />
+          <input type="password" placeholder="Confirm passphrase" value={confirmation} onChange={(e) => setConfirmation(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-black focus:border-black" />
+          <button onClick={handleCreate} disabled={isWorking}
+            className="w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400">
+            {isWorking ? 'Encrypting...' : 'Encrypt Secrets'}
+          </button>
+          <p className="text-xs text-gray-500">There is no recovery: a forgotten passphrase means entering the secrets again.</p>
+        </div>
+      )}
+      {vault.status === 'locked' && (
+        <div className="space-y-2">
+          <p className="text-sm text-amber-700">Secrets are locked. Secret fields are empty until you unlock, and changes to them won't be saved.</p>
+          <div className="flex space-x-2">
+            <button onClick={vault.onRequestUnlock} className="flex-1 bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">Unlock</button>
+            <button onClick={() => vault.onRemove(settings)} className="text-sm text-red-600 hover:underline">Forgot passphrase? Delete secrets</button>
+          </div>
+        </div>
+      )}
+      {vault.status === 'unlocked' && (
+        <div className="space-y-2">
+          <p className="text-sm text-green-700">Secrets are encrypted and unlocked for this session.</p>
+          <div className="flex space-x-4">
+            <button onClick={vault.onLock} className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100">Lock Now</button>
+            <button onClick={() => vault.onRemove(settings)} className="text-sm text-red-600 hover:underline">Stop encrypting</button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
 };
 
-const convertMcpToolToGemini = (mcpTool: any) => {
-  const parameters = {
-    type: Type.OBJECT,
-    properties: {},
-    required: mcpTool.inputSchema?.required || []
+// --- Tool Timeout Input ---
+const ToolTimeoutInput: React.FC<{
+  value: number | undefined;
+  defaultSec: number;
+  onChange: (seconds: number | undefined) => void;
+}> = ({ value, defaultSec, onChange }) => (
+  <input
+    type="number"
+    min={1}
+    value={value ?? ''}
+    placeholder={`${defaultSec}s`}
+    onChange={(e) => onChange(e.target.value ? Math.max(1, Number(e.target.value)) : undefined)}
+    className="w-16 text-xs p-1 border border-gray-300 rounded-md focus:ring-black focus:border-black"
+    aria-label="Timeout in seconds"
+    title="Timeout in seconds (empty uses the default)"
+  />
+);
+
+// --- Audio Device Section ---
+const LevelMeter: React.FC<{ level: number; label: string }> = ({ level, label }) => (
+  <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden" role="meter" aria-label={label} aria-valuemin={0} aria-valuemax={1} aria-valuenow={level}>
+    <div className="h-full bg-green-500 transition-[width] duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+  </div>
+);
+
+const AudioDeviceSection: React.FC<{
+  devices: AudioDeviceSettings;
+  onChange: (devices: AudioDeviceSettings) => void;
+}> = ({ devices, onChange }) => {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [micLevel, setMicLevel] = useState(0);
+  const [speakerLevel, setSpeakerLevel] = useState(0);
+  const [isTestingMic, setIsTestingMic] = useState(false);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const [error, setError] = useState('');
+
+  const refreshDevices = async () => {
+    try {
+      const listed = await listAudioDevices();
+      setInputs(listed.inputs);
+      setOutputs(listed.outputs);
+    } catch (e) {
+      setError(`Could not list audio devices: ${(e as Error).message}`);
+    }
   };
 
-  if (mcpTool.inputSchema?.properties) {
-    Object.entries(mcpTool.inputSchema.properties).forEach(([key, prop]: [string, any]) => {
-      // @ts-ignore
-      parameters.properties[key] = {
-        type: mapJsonTypeToGenAiType(prop.type),
-        description: prop.description || ''
-      };
-    });
-  }
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, []);
+
+  // The test opens the mic with the chosen settings, so it restarts when they change.
+  useEffect(() => {
+    if (!isTestingMic) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    monitorMicrophone(devices, setMicLevel)
+      .then(stopMonitor => {
+        if (cancelled) stopMonitor();
+        else stop = stopMonitor;
+        // Labels appear once the page has mic access.
+        refreshDevices();
+      })
+      .catch(e => {
+        setError(`Could not open the microphone: ${(e as Error).message}`);
+        setIsTestingMic(false);
+      });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [isTestingMic, devices.inputDeviceId, devices.echoCancellation, devices.noiseSuppression, devices.autoGainControl]);
+
+  const toggleMicTest = () => {
+    setError('');
+    setIsTestingMic(!isTestingMic);
+  };
+
+  const handleTestTone = async () => {
+    setError('');
+    setIsPlayingTone(true);
+    try {
+      await playTestTone(devices.outputDeviceId, setSpeakerLevel);
+    } catch (e) {
+      setError(`Could not play on that speaker: ${(e as Error).message}`);
+    } finally {
+      setIsPlayingTone(false);
+    }
+  };
+
+  const deviceLabel = (device: MediaDeviceInfo, index: number, kind: string) => device.label || `${kind} ${index + 1}`;
+  const hasLabels = inputs.some(device => device.label);
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-700">Microphone &amp; Speaker</h3>
+      {!hasLabels && <p className="text-xs text-gray-500">Device names show up once the page can use the microphone. Test the microphone to allow it.</p>}
+      <div className="space-y-2">
+        <label htmlFor="audio-input-select" className="block text-sm font-medium text-gray-600">Microphone</label>
+        <div className="flex space-x-2">
+          <select id="audio-input-select" value={devices.inputDeviceId} onChange={(e) => onChange({ ...devices, inputDeviceId: e.target.value })}
+            className="flex-grow min-w-0 p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+            <option value="">System default</option>
+            {inputs.filter(device => device.deviceId !== 'default').map((device, i) => <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Microphone')}</option>)}
+          </select>
+          <button onClick={toggleMicTest} className="border border-gray-300 py-2 px-3 rounded-md text-sm hover:bg-gray-100 whitespace-nowrap">
+            {isTestingMic ? 'Stop Test' : 'Test'}
+          </button>
+        </div>
+        <LevelMeter level={micLevel} label="Microphone level" />
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="audio-output-select" className="block text-sm font-medium text-gray-600">Speaker</label>
+        <div className="flex space-x-2">
+          <select id="audio-output-select" value={devices.outputDeviceId} disabled={!canSelectOutput()} onChange={(e) => onChange({ ...devices, outputDeviceId: e.target.value })}
+            className="flex-grow min-w-0 p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black disabled:bg-gray-100">
+            <option value="">System default</option>
+            {outputs.filter(device => device.deviceId !== 'default').map((device, i) => <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Speaker')}</option>)}
+          </select>
+          <button onClick={handleTestTone} disabled={isPlayingTone} className="border border-gray-300 py-2 px-3 rounded-md text-sm hover:bg-gray-100 disabled:text-gray-400 whitespace-nowrap">
+            Play Tone
+          </button>
+        </div>
+        <LevelMeter level={speakerLevel} label="Speaker level" />
+        {!canSelectOutput() && <p className="text-xs text-gray-500">This browser always plays on the system default speaker.</p>}
+      </div>
+      <div className="space-y-1">
+        {([
+          ['echoCancellation', 'Echo cancellation'],
+          ['noiseSuppression', 'Noise suppression'],
+          ['autoGainControl', 'Automatic gain control'],
+        ] as const).map(([key, label]) => (
+          <div key={key} className="flex items-center">
+            <input id={`audio-${key}`} type="checkbox" checked={devices[key]} onChange={(e) => onChange({ ...devices, [key]: e.target.checked })}
+              className="h-4 w-4 text-black border-gray-300 rounded focus:ring-black" />
+            <label htmlFor={`audio-${key}`} className="ml-2 block text-sm text-gray-900">{label}</label>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Turn echo cancellation off only with headphones, or Gemini will hear itself. A headset plugged in during a conversation is picked up automatically.</p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
 
-  return {
-    name: mcpTool.name,
-    description: mcpTool.description,
-    parameters: parameters
+// --- MCP Prompt Picker ---
+// Fills the personality from one of the servers' prompt templates, asking for its arguments.
+const McpPromptPicker: React.FC<{
+  servers: McpServer[];
+  onApply: (personality: string) => void;
+}> = ({ servers, onApply }) => {
+  const [selection, setSelection] = useState(''); // `${serverId}\n${promptName}`
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const withPrompts = servers.filter(s => s.prompts && s.prompts.length > 0);
+  if (withPrompts.length === 0) return null;
+
+  const [serverId, promptName] = selection.split('\n');
+  const server = withPrompts.find(s => s.id === serverId);
+  const prompt = server?.prompts?.find(p => p.name === promptName);
+  const missing = prompt?.arguments?.filter(a => a.required && !args[a.name]?.trim()) || [];
+
+  const handleApply = async () => {
+    if (!server || !prompt) return;
+    setIsLoading(true);
+    setError('');
+    let client: McpClient | null = null;
+    try {
+      client = (await McpClient.open({
+        url: server.url,
+        transport: server.transport || inferTransport(server.url),
+        useCredentials: server.useCredentials,
+      })).client;
+      const filled: Record<string, string> = {};
+      for (const arg of prompt.arguments || []) {
+        if (args[arg.name]?.trim()) filled[arg.name] = args[arg.name];
+      }
+      const result = await client.getPrompt(prompt.name, filled);
+      const text = promptMessagesToText(result?.messages || []);
+      if (!text) throw new Error('The prompt came back without any text.');
+      onApply(text);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      client?.close();
+      setIsLoading(false);
+    }
   };
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-md border border-gray-200 space-y-2">
+      <label htmlFor="mcp-prompt" className="block text-sm font-medium text-gray-600">Use a prompt from an MCP server</label>
+      <select
+        id="mcp-prompt"
+        value={selection}
+        onChange={(e) => { setSelection(e.target.value); setArgs({}); setError(''); }}
+        className="w-full p-2 border border-gray-300 rounded-md bg-white focus:ring-black focus:border-black"
+      >
+        <option value="">Choose a prompt...</option>
+        {withPrompts.map(s => (
+          <optgroup key={s.id} label={s.name}>
+            {s.prompts!.map(p => <option key={p.name} value={`${s.id}\n${p.name}`}>{p.title || p.name}</option>)}
+          </optgroup>
+        ))}
+      </select>
+      {prompt?.description && <p className="text-xs text-gray-500">{prompt.description}</p>}
+      {prompt?.arguments?.map(arg => (
+        <input
+          key={arg.name}
+          type="text"
+          placeholder={`${arg.name}${arg.required ? ' (required)' : ''}${arg.description ? ` - ${arg.description}` : ''}`}
+          value={args[arg.name] || ''}
+          onChange={(e) => setArgs(prev => ({ ...prev, [arg.name]: e.target.value }))}
+          className="w-full p-1 text-sm border border-gray-300 rounded-md focus:ring-black focus:border-black"
+        />
+      ))}
+      {prompt && (
+        <button onClick={handleApply} disabled={isLoading || missing.length > 0}
+          className="w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400">
+          {isLoading ? 'Loading...' : 'Replace Custom Prompt'}
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
 };
 
 // --- Test Modal Component ---
@@ -81,12 +413,18 @@ const TestModal: React.FC<{
   onClose: () => void;
 }> = ({ target, onClose }) => {
   const [isTesting, setIsTesting] = useState(false);
-  const [result, setResult] = useState<{ request: object; response: string; error?: string } | null>(null);
+  const [result, setResult] = useState<{ request: object; response: string; raw?: string; error?: string } | null>(null);
   const [customPrompt, setCustomPrompt] = useState('salut');
+  const [webhookArgs, setWebhookArgs] = useState('');
+
+  const isWebhook = !!target && !('postUrl' in target);
+  // Only the default connection shape is called straight away; anything else may have side effects.
+  const isLegacyWebhook = isWebhook && !(target as Connection).parameters && (target as Connection).method === undefined;
 
   useEffect(() => {
     if (target && !('postUrl' in target)) {
-      handleTest();
+      setWebhookArgs(JSON.stringify(sampleWebhookArgs(target, customPrompt), null, 2));
+      if (!target.parameters && target.method === undefined) handleTest();
     }
   }, [target]);
 
@@ -95,145 +433,46 @@ const TestModal: React.FC<{
     setIsTesting(true);
     setResult(null);
 
-    let es: EventSource | null = null;
+    let client: McpClient | null = null;
     try {
       if ('postUrl' in target) {
         const mcpServer = target as McpServer;
 
-        // --- 1. OPEN SSE ---
-        const discovery = await new Promise<{ postUrl: string, es: EventSource }>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            if (newEs) newEs.close();
-            reject(new Error("Test Timeout: Could not connect (120s)."));
-          }, 120000);
-
-          let newEs: EventSource | null = null;
-          try {
-            newEs = new EventSource(mcpServer.url, { withCredentials: mcpServer.useCredentials });
-            newEs.addEventListener('endpoint', (event) => {
-              clearTimeout(timeout);
-              const base = new URL(mcpServer.url, window.location.href);
-              let postUrl = new URL(event.data, base).toString();
-              // LOCAL PROXY REWRITE: If on localhost and using the Tailscale domain, use the proxy path
-              const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-              if (isLocal && postUrl.includes('agentzero.tail335dec.ts.net')) {
-                const urlObj = new URL(postUrl);
-                postUrl = urlObj.pathname + urlObj.search;
-              }
-              resolve({ postUrl, es: newEs! });
-            });
-            newEs.onerror = () => {
-              clearTimeout(timeout);
-              reject(new Error("SSE Test Connection failed."));
-            };
-          } catch (e) { reject(e); }
-        });
-
-        es = discovery.es;
-        const postEndpoint = discovery.postUrl;
-
-        // --- Persistent Listener for Test ---
-        const responses = new Map<number, any>();
-        const waiters = new Map<number, { resolve: (d: any) => void, reject: (e: Error) => void, timer: number }>();
-
-        const listener = (ev: MessageEvent) => {
-          console.log(`[Test SSE Debug]`, ev.data);
-          try {
-            const data = JSON.parse(ev.data);
-            if (data.id !== undefined) {
-              const waiter = waiters.get(data.id);
-              if (waiter) {
-                clearTimeout(waiter.timer);
-                waiters.delete(data.id);
-                if (data.error) waiter.reject(new Error(data.error.message));
-                else waiter.resolve(data);
-              } else responses.set(data.id, data);
-            }
-          } catch (e) { }
-        };
-        es.addEventListener('message', listener);
-
-        const wait = (id: number) => {
-          if (responses.has(id)) {
-            const d = responses.get(id);
-            responses.delete(id);
-            return Promise.resolve(d);
-          }
-          return new Promise((res, rej) => {
-            const t = window.setTimeout(() => {
-              waiters.delete(id);
-              rej(new Error(`Timeout waiting for ID ${id}`));
-            }, 120000);
-            waiters.set(id, { resolve: res, reject: rej, timer: t });
-          });
-        };
-        const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
-
-        // --- 2. HANDSHAKE ---
-        const fetchOpts = {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: mcpServer.useCredentials ? ('include' as RequestCredentials) : ('same-origin' as RequestCredentials),
-        };
-
-        const initId = Date.now();
-        await fetch(postEndpoint, {
-          ...fetchOpts,
-          body: JSON.stringify({
-            jsonrpc: "2.0", method: "initialize", id: initId,
-            params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1" } }
-          })
-        });
-        await wait(initId);
-        await sleep(1000);
-
-        await fetch(postEndpoint, {
-          ...fetchOpts,
-          body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })
-        });
-        await sleep(1000);
-
-        // --- 3. EXECUTE TEST (Request Tool Call OR List) ---
-        const testId = initId + 1;
-        let requestBody: any;
+        // --- 1. OPEN SESSION & HANDSHAKE ---
+        ({ client } = await McpClient.open({
+          url: mcpServer.url,
+          transport: mcpServer.transport || inferTransport(mcpServer.url),
+          useCredentials: mcpServer.useCredentials,
+          clientInfo: { name: "test", version: "1" },
+        }));
+
+        // --- 2. EXECUTE TEST (Request Tool Call OR List) ---
+        let requestBody: { method: string; params: object };
 
         // If user entered a message, try calling send_message
         if (customPrompt && customPrompt.trim() !== 'salut' && customPrompt.trim() !== '') {
           requestBody = {
-            jsonrpc: "2.0",
             method: "tools/call",
-            id: testId,
             params: {
               name: "send_message",
               arguments: { message: customPrompt }
             }
           };
         } else {
-          requestBody = { jsonrpc: "2.0", method: "tools/list", id: testId, params: {} };
+          requestBody = { method: "tools/list", params: {} };
         }
 
         setResult({ request: requestBody, response: `Handshake OK. Sending ${requestBody.method}...` });
 
-        await fetch(postEndpoint, { ...fetchOpts, body: JSON.stringify(requestBody) });
-        const finalResponse = await wait(testId);
-
-        setResult({ request: requestBody, response: JSON.stringify(finalResponse.result || finalResponse, null, 2) });
-        es.removeEventListener('message', listener);
+        const finalResult = await client.request(requestBody.method, requestBody.params);
+        setResult({ request: requestBody, response: JSON.stringify(finalResult, null, 2) });
       }
       else {
-        // Webhook logic remains the same
+        // Webhooks are called exactly as the model would call them.
         const connection = target as Connection;
-        const requestBody = { query: customPrompt };
-
-        const response = await fetch(connection.url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestBody),
-        });
-
-        const responseText = await response.text();
-        if (!response.ok) throw new Error(`HTTP ${response.status}: ${responseText}`);
-        setResult({ request: requestBody, response: responseText });
+        const args = isLegacyWebhook ? { query: customPrompt } : JSON.parse(webhookArgs || '{}');
+        const { request, rawResponse, result } = await callWebhook(connection, args);
+        setResult({ request, response: result, raw: connection.responseSelector ? rawResponse : undefined });
       }
     } catch (error: any) {
       setResult({
@@ -242,7 +481,7 @@ const TestModal: React.FC<{
         error: error.message || 'An unknown error occurred.',
       });
     } finally {
-      if (es) es.close();
+      client?.close();
       setIsTesting(false);
     }
   };
@@ -255,14 +494,22 @@ const TestModal: React.FC<{
         <h3 className="text-lg font-semibold mb-4 text-gray-800">Testing '{target.name}'</h3>
 
         <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">Test Payload</label>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{isWebhook && !isLegacyWebhook ? 'Test Arguments (JSON)' : 'Test Payload'}</label>
           <div className="flex space-x-2">
-            <input
-              type="text"
-              value={customPrompt}
-              onChange={(e) => setCustomPrompt(e.target.value)}
-              className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm"
-            />
+            {isWebhook && !isLegacyWebhook ? (
+              <textarea
+                value={webhookArgs}
+                onChange={(e) => setWebhookArgs(e.target.value)}
+                className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm h-28 font-mono text-xs"
+              />
+            ) : (
+              <input
+                type="text"
+                value={customPrompt}
+                onChange={(e) => setCustomPrompt(e.target.value)}
+                className="flex-grow p-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            )}
             <button onClick={handleTest} disabled={isTesting}
               className="bg-black text-white px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400">
               {isTesting ? 'Sending...' : 'Send'}
@@ -275,14 +522,14 @@ const TestModal: React.FC<{
             <div>
               <h4 className="font-semibold text-gray-700">Request:</h4>
               <pre className="bg-gray-100 p-2 rounded-md text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap max-h-32">
-                {JSON.stringify(result.request, null, 2)}
+                {JSON.stringify(redactSecrets(result.request), null, 2)}
               </pre>
             </div>
             <div>
               <h4 className="font-semibold text-gray-700">Response:</h4>
               {result.error ? (
                 <pre className="bg-red-50 border border-red-200 p-2 rounded-md text-xs text-red-800 overflow-x-auto whitespace-pre-wrap">
-                  <span className="font-semibold">Error:</span> {result.error}
+                  <span className="font-semibold">Error:</span> {redactSecrets(result.error)}
                 </pre>
               ) : (
                 <pre className="bg-green-50 border border-green-200 p-2 rounded-md text-xs text-green-900 overflow-x-auto whitespace-pre-wrap max-h-60">
@@ -290,6 +537,14 @@ const TestModal: React.FC<{
                 </pre>
               )}
             </div>
+            {result.raw !== undefined && (
+              <div>
+                <h4 className="font-semibold text-gray-700">Raw Response (before the selector):</h4>
+                <pre className="bg-gray-100 p-2 rounded-md text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap max-h-40">
+                  {result.raw}
+                </pre>
+              </div>
+            )}
           </div>
         )}
         <button onClick={onClose} className="mt-6 border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100 w-full">
@@ -304,15 +559,16 @@ const TestModal: React.FC<{
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   isOpen,
   currentSettings,
+  vault,
   onClose,
   onSave,
 }) => {
   const [settings, setSettings] = useState(currentSettings);
 
   // Connection State
-  const [newConnectionName, setNewConnectionName] = useState('');
-  const [newConnectionDescription, setNewConnectionDescription] = useState('');
-  const [newConnectionUrl, setNewConnectionUrl] = useState('');
+  const [connectionDraft, setConnectionDraft] = useState<ConnectionDraft>(EMPTY_CONNECTION_DRAFT);
+  const [editingConnectionId, setEditingConnectionId] = useState<string | null>(null);
+  const [connectionError, setConnectionError] = useState('');
   const [connectionToRemove, setConnectionToRemove] = useState<Connection | McpServer | null>(null);
   const [itemToTest, setItemToTest] = useState<Connection | McpServer | null>(null);
 
@@ -321,6 +577,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   const [mcpUseCredentials, setMcpUseCredentials] = useState(false);
   const [mcpLoading, setMcpLoading] = useState(false);
   const [mcpError, setMcpError] = useState('');
+  const [refreshingServerId, setRefreshingServerId] = useState<string | null>(null);
 
   // Auto-Config State
   const [autoConfigUrl, setAutoConfigUrl] = useState('');
@@ -331,26 +588,71 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     setSettings(currentSettings);
   }, [currentSettings, isOpen]);
 
+  // Checked on every edit so duplicate tool names are fixed here rather than failing mid-call.
+  const toolCollisions = useMemo(() => buildToolRegistry(settings, reservedBuiltins()).collisions, [settings]);
+
   const handleSave = () => {
+    if (toolCollisions.length > 0) return;
     onSave(settings);
   };
 
+  const handleRefreshMcp = async (server: McpServer) => {
+    setRefreshingServerId(server.id);
+    const refreshed = await refreshMcpServer(server);
+    setSettings((prev) => ({
+      ...prev,
+      mcpServers: prev.mcpServers.map(s => (s.id === server.id ? { ...refreshed, toolPrefix: s.toolPrefix, pinnedResources: s.pinnedResources } : s)),
+    }));
+    setRefreshingServerId(null);
+  };
+
+  const handleToolPrefixChange = (serverId: string, prefix: string) => {
+    const toolPrefix = sanitizeToolPrefix(prefix);
+    setSettings((prev) => ({
+      ...prev,
+      mcpServers: prev.mcpServers.map(s => (s.id === serverId ? { ...s, toolPrefix: toolPrefix || undefined } : s)),
+    }));
+  };
+
+  const handlePinnedResourceChange = (serverId: string, uri: string, pinned: boolean) => {
+    setSettings((prev) => ({
+      ...prev,
+      mcpServers: prev.mcpServers.map(s => {
+        if (s.id !== serverId) return s;
+        const pinnedResources = (s.pinnedResources || []).filter(u => u !== uri);
+        if (pinned) pinnedResources.push(uri);
+        return { ...s, pinnedResources: pinnedResources.length > 0 ? pinnedResources : undefined };
+      }),
+    }));
+  };
+
   const handleAddConnection = () => {
-    if (newConnectionName && newConnectionDescription && newConnectionUrl) {
-      const newConnection: Connection = {
-        id: Date.now().toString(),
-        name: newConnectionName.trim().replace(/\s+/g, '_'),
-        description: newConnectionDescription.trim(),
-        url: newConnectionUrl.trim(),
-      };
-      setSettings((prev) => ({
-        ...prev,
-        connections: [...prev.connections, newConnection],
-      }));
-      setNewConnectionName('');
-      setNewConnectionDescription('');
-      setNewConnectionUrl('');
+    const error = validateConnectionDraft(connectionDraft);
+    if (error) {
+      setConnectionError(error);
+      return;
     }
+    const draft = normalizeConnectionDraft(connectionDraft);
+    setSettings((prev) => ({
+      ...prev,
+      connections: editingConnectionId
+        ? prev.connections.map(c => (c.id === editingConnectionId ? { ...draft, id: c.id, type: c.type } : c))
+        : [...prev.connections, { ...draft, id: Date.now().toString() }],
+    }));
+    resetConnectionForm();
+  };
+
+  const resetConnectionForm = () => {
+    setConnectionDraft(EMPTY_CONNECTION_DRAFT);
+    setEditingConnectionId(null);
+    setConnectionError('');
+  };
+
+  const handleEditConnection = (connection: Connection) => {
+    const { id, type, ...draft } = connection;
+    setConnectionDraft(draft);
+    setEditingConnectionId(id);
+    setConnectionError('');
   };
 
   const handleAddMcpServer = async () => {
@@ -372,8 +674,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     }
 
     // --- PRODUCTION VALIDATION ---
-    const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-    if (!isLocal && !inputUrl.startsWith('http')) {
+    if (!isLocalHost() && !inputUrl.startsWith('http')) {
       setMcpError("On GitHub Pages, you must use a FULL URL (starting with https://). Relative paths only work on localhost.");
       return;
     }
@@ -382,189 +683,40 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     setMcpError('');
 
     // --- PROXY AUTO-DETECTION (Local Dev Only) ---
-    if (isLocal && inputUrl.includes('agentzero.tail335dec.ts.net')) {
+    const proxiedUrl = rewriteForLocalProxy(inputUrl);
+    if (proxiedUrl !== inputUrl) {
       console.log("Local development detected: Rewriting URL to use Vite proxy.");
-      try {
-        const urlObj = new URL(inputUrl);
-        inputUrl = urlObj.pathname + urlObj.search;
-        if (!inputUrl.startsWith('/')) inputUrl = '/' + inputUrl;
-      } catch (e) { }
+      inputUrl = proxiedUrl;
     }
 
-    let eventSource: EventSource | null = null;
-    const isSse = inputUrl.includes('/sse');
-    let postEndpoint = inputUrl;
-
-    const mcpResponses = new Map<number, any>();
-    const mcpWaiters = new Map<number, { resolve: (data: any) => void, reject: (e: Error) => void, timer: number }>();
+    let client: McpClient | null = null;
 
     try {
-      if (isSse) {
-        // --- 1. PROTOCOL DISCOVERY & SSE OPEN ---
-        const discovery = await new Promise<{ postUrl: string, es: EventSource }>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            if (es) es.close();
-            reject(new Error("Timeout waiting for 'endpoint' event (30s). Check if the server is starting up."));
-          }, 30000);
-
-          let es: EventSource | null = null;
-          try {
-            es = new EventSource(inputUrl, { withCredentials: mcpUseCredentials });
-            es.onopen = () => console.log("SSE Connection Opened.");
-            es.onerror = (e) => {
-              clearTimeout(timeout);
-              reject(new Error("EventSource connection error. Ensure the URL is correct and the server is reachable."));
-            };
-
-            es.addEventListener('endpoint', (event) => {
-              clearTimeout(timeout);
-              try {
-                const base = new URL(inputUrl, window.location.href);
-                let discovered = new URL(event.data, base).toString();
-                // LOCAL PROXY REWRITE
-                const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-                if (isLocal && discovered.includes('agentzero.tail335dec.ts.net')) {
-                  const urlObj = new URL(discovered);
-                  discovered = urlObj.pathname + urlObj.search;
-                }
-                resolve({ postUrl: discovered, es: es! });
-              } catch (e) {
-                reject(new Error("Invalid endpoint URL from server."));
-              }
-            });
-          } catch (e: any) {
-            reject(e);
-          }
-        });
-
-        eventSource = discovery.es;
-        postEndpoint = discovery.postUrl;
-        console.log("[Handshake] Discovery Successful. POST URL:", postEndpoint);
-
-        // SSE Listener
-        eventSource.addEventListener('message', (ev) => {
-          try {
-            const data = JSON.parse(ev.data);
-            if (data.id !== undefined) {
-              const waiter = mcpWaiters.get(data.id);
-              if (waiter) {
-                clearTimeout(waiter.timer);
-                mcpWaiters.delete(data.id);
-                if (data.error) waiter.reject(new Error(`MCP Server Error: ${data.error.message || JSON.stringify(data.error)}`));
-                else waiter.resolve(data);
-              } else {
-                mcpResponses.set(data.id, data);
-              }
-            }
-          } catch (e) {
-            console.warn("[SSE Warning] Non-JSON message:", ev.data);
-          }
-        });
-      } else {
-        console.log("[Connection] Mode: Direct POST (A2A). Using URL:", postEndpoint);
-      }
-
-      const waitForId = (id: number) => {
-        if (!isSse) return Promise.reject(new Error("waitForId called in Direct Mode"));
-        const alreadyReceived = mcpResponses.get(id);
-        if (alreadyReceived) {
-          mcpResponses.delete(id);
-          return Promise.resolve(alreadyReceived);
-        }
-        return new Promise((resolve, reject) => {
-          const timer = window.setTimeout(() => {
-            mcpWaiters.delete(id);
-            reject(new Error(`Timeout waiting for SSE response ID ${id} (120s)`));
-          }, 120000);
-          mcpWaiters.set(id, { resolve, reject, timer });
-        });
-      };
-
-      const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+      // --- 1. TRANSPORT DETECTION & HANDSHAKE ---
+      // Streamable HTTP is tried first; servers that reject it fall back to SSE.
+      const opened = await McpClient.open({ url: inputUrl, useCredentials: mcpUseCredentials });
+      client = opened.client;
+      console.log(`[Handshake] Connected via ${client.transport} (protocol ${client.protocolVersion}). POST URL:`, client.postUrl);
 
-      // --- 2. HANDSHAKE (Initialize) ---
-      const fetchOptions: RequestInit = {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: mcpUseCredentials ? 'include' : 'same-origin',
-      };
-
-      const initId = Date.now();
-      console.log(`[Handshake] Step 1: Sending initialize (ID: ${initId})...`);
-      const initRes = await fetch(postEndpoint, {
-        ...fetchOptions,
-        body: JSON.stringify({
-          jsonrpc: "2.0", method: "initialize", id: initId,
-          params: {
-            protocolVersion: "2024-11-05",
-            capabilities: {},
-            clientInfo: { name: "gemini-live-web", version: "1.0.0" }
-          }
-        })
-      });
-      console.log(`[Handshake] Initialize request status: ${initRes.status}`);
-
-      if (!initRes.ok) throw new Error(`Initialize failed: ${initRes.status}`);
-
-      if (isSse) {
-        await waitForId(initId);
-      } else {
-        const data = await initRes.json();
-        console.log("[Handshake] Direct Init Response:", data);
-      }
-      console.log("[Handshake] Step 1 COMPLETE.");
-
-      await sleep(1000);
-
-      // Step 2: Initialized notification
-      console.log("[Handshake] Step 2: Sending 'notifications/initialized'...");
-      await fetch(postEndpoint, {
-        ...fetchOptions,
-        body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })
-      });
-
-      await sleep(1000);
-
-      // --- 3. FETCH TOOLS ---
-      const toolsId = initId + 1;
-      console.log(`[Handshake] Step 3: Requesting tools list (ID: ${toolsId})...`);
-      const toolsPostRes = await fetch(postEndpoint, {
-        ...fetchOptions,
-        body: JSON.stringify({ jsonrpc: "2.0", method: "tools/list", id: toolsId, params: {} })
-      });
-
-      let toolsList: any[] = [];
-      if (isSse) {
-        const toolsData = await waitForId(toolsId);
-        toolsList = toolsData.result?.tools || [];
-      } else {
-        const toolsJson = await toolsPostRes.json();
-        toolsList = toolsJson.result?.tools || [];
-      }
-
-      console.log(`[Handshake] SUCCESS! Found ${toolsList.length} tools.`);
-
-      const convertedTools = toolsList.map(convertMcpToolToGemini);
+      // --- 2. FETCH TOOLS, RESOURCES AND PROMPTS ---
+      const catalog = await listMcpCatalog(client, opened.init);
+      console.log(`[Handshake] SUCCESS! Found ${catalog.tools.length} tools, ${catalog.resources.length} resources and ${catalog.prompts.length} prompts.`);
 
       const newServer: McpServer = {
         id: Date.now().toString(),
         url: inputUrl,
-        postUrl: postEndpoint,
-        name: `Agent Zero (${toolsList.length} tools) [${isSse ? 'SSE' : 'A2A'}]`,
-        status: 'connected',
-        tools: convertedTools,
         useCredentials: mcpUseCredentials,
+        ...snapshotMcpServer(client, opened.init, catalog),
       };
 
       setSettings(prev => ({ ...prev, mcpServers: [...(prev.mcpServers || []), newServer] }));
       setNewMcpUrl('');
-      if (eventSource) eventSource.close();
 
     } catch (e: any) {
       console.error("Connection Failed", e);
       setMcpError(e.message);
-      if (eventSource) eventSource.close();
     } finally {
+      client?.close();
       setMcpLoading(false);
     }
   };
@@ -620,9 +772,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
       const parsedResult = JSON.parse(result.text);
 
-      setNewConnectionName(parsedResult.name);
-      setNewConnectionDescription(parsedResult.description);
-      setNewConnectionUrl(autoConfigUrl);
+      setConnectionDraft(prev => ({ ...prev, name: parsedResult.name, description: parsedResult.description, url: autoConfigUrl }));
 
     } catch (error: any) {
       console.error('Auto-configuration failed:', error);
@@ -632,11 +782,28 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     }
   };
 
+  const handleToolPolicyChange = (toolName: string, policy: ToolPolicy) => {
+    setSettings((prev) => ({
+      ...prev,
+      toolPolicies: { ...prev.toolPolicies, [toolName]: policy },
+    }));
+  };
+
+  const handleToolTimeoutChange = (toolName: string, seconds: number | undefined) => {
+    setSettings((prev) => {
+      const toolTimeouts = { ...prev.toolTimeouts };
+      if (seconds === undefined) delete toolTimeouts[toolName];
+      else toolTimeouts[toolName] = seconds;
+      return { ...prev, toolTimeouts };
+    });
+  };
+
   const handleRemoveConnection = (id: string) => {
     setSettings((prev) => ({
       ...prev,
       connections: prev.connections.filter((c) => c.id !== id),
     }));
+    if (editingConnectionId === id) resetConnectionForm();
     setConnectionToRemove(null);
   };
 
@@ -670,6 +837,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </div>
             </div>
 
+            <VaultSection vault={vault} settings={settings} />
+
             {/* --- Voice Settings --- */}
             <div className="space-y-4 pt-4 border-t border-gray-200">
               <h3 className="text-lg font-semibold text-gray-700">AI Voice</h3>
@@ -685,6 +854,103 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   className="h-4 w-4 text-black border-gray-300 rounded focus:ring-black" />
                 <label htmlFor="emotion-toggle" className="ml-2 block text-sm text-gray-900">Enable emotional tone</label>
               </div>
+              <div className="space-y-2">
+                <label htmlFor="mic-chunk-select" className="block text-sm font-medium text-gray-600">Microphone chunk size</label>
+                <select id="mic-chunk-select" value={settings.micChunkMs} onChange={(e) => setSettings({ ...settings, micChunkMs: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+                  {micChunkOptions.map((ms) => <option key={ms} value={ms}>{ms} ms</option>)}
+                </select>
+                <p className="text-xs text-gray-500">Smaller chunks lower latency; larger chunks send fewer messages.</p>
+              </div>
+            </div>
+
+            <AudioDeviceSection devices={settings.audioDevices} onChange={(audioDevices) => setSettings({ ...settings, audioDevices })} />
+
+            {/* --- Input & Reply Settings --- */}
+            <div className="space-y-4 pt-4 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-700">Talking &amp; Typing</h3>
+              <div className="space-y-2">
+                <label htmlFor="reply-mode-select" className="block text-sm font-medium text-gray-600">Model replies</label>
+                <select id="reply-mode-select" value={settings.replyMode} onChange={(e) => setSettings({ ...settings, replyMode: e.target.value as ReplyMode })}
+                  className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+                  {(Object.keys(REPLY_MODE_LABELS) as ReplyMode[]).map((mode) => <option key={mode} value={mode}>{REPLY_MODE_LABELS[mode]}</option>)}
+                </select>
+                <p className="text-xs text-gray-500">Written replies use a text model, so the voice and emotion settings don't apply.</p>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="mic-mode-select" className="block text-sm font-medium text-gray-600">Microphone</label>
+                <select id="mic-mode-select" value={settings.micMode} disabled={settings.textOnly} onChange={(e) => setSettings({ ...settings, micMode: e.target.value as MicMode })}
+                  className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black disabled:bg-gray-100">
+                  {(Object.keys(MIC_MODE_LABELS) as MicMode[]).map((mode) => <option key={mode} value={mode}>{MIC_MODE_LABELS[mode]}</option>)}
+                </select>
+                <p className="text-xs text-gray-500">Push to talk and toggle mute also have a button under the visualizer.</p>
+              </div>
+              <div className="flex items-center">
+                <input id="text-only-toggle" type="checkbox" checked={settings.textOnly} onChange={(e) => setSettings({ ...settings, textOnly: e.target.checked })}
+                  className="h-4 w-4 text-black border-gray-300 rounded focus:ring-black" />
+                <label htmlFor="text-only-toggle" className="ml-2 block text-sm text-gray-900">Text-only: type instead of talking (the microphone is not used)</label>
+              </div>
+            </div>
+
+            {/* --- Video Settings --- */}
+            <div className="space-y-4 pt-4 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-700">Camera &amp; Screen Frames</h3>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <label htmlFor="video-dimension" className="block text-sm font-medium text-gray-600">Max size</label>
+                  <select id="video-dimension" value={settings.videoFrames.maxDimension}
+                    onChange={(e) => setSettings({ ...settings, videoFrames: { ...settings.videoFrames, maxDimension: Number(e.target.value) } })}
+                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+                    {videoDimensionOptions.map((px) => <option key={px} value={px}>{px} px</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="video-fps" className="block text-sm font-medium text-gray-600">Frame rate</label>
+                  <select id="video-fps" value={settings.videoFrames.fps}
+                    onChange={(e) => setSettings({ ...settings, videoFrames: { ...settings.videoFrames, fps: Number(e.target.value) } })}
+                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+                    {videoFpsOptions.map((fps) => <option key={fps} value={fps}>{fps} FPS</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="video-quality" className="block text-sm font-medium text-gray-600">Quality</label>
+                  <select id="video-quality" value={settings.videoFrames.quality}
+                    onChange={(e) => setSettings({ ...settings, videoFrames: { ...settings.videoFrames, quality: Number(e.target.value) } })}
+                    className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black">
+                    {videoQualityOptions.map((q) => <option key={q.value} value={q.value}>{q.label}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <input id="video-skip-unchanged" type="checkbox" checked={settings.videoFrames.skipUnchanged}
+                  onChange={(e) => setSettings({ ...settings, videoFrames: { ...settings.videoFrames, skipUnchanged: e.target.checked } })}
+                  className="h-4 w-4 text-black border-gray-300 rounded focus:ring-black" />
+                <label htmlFor="video-skip-unchanged" className="ml-2 block text-sm text-gray-900">Don't send frames that have barely changed</label>
+              </div>
+              <p className="text-xs text-gray-500">Frames are scaled so their longer side fits the max size. Smaller, slower frames save mobile data; raise the size to read small text on a shared screen.</p>
+            </div>
+
+            {/* --- Caption Settings --- */}
+            <div className="space-y-4 pt-4 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-700">Captions</h3>
+              <div className="flex items-center">
+                <input id="captions-toggle" type="checkbox" checked={settings.showCaptions} onChange={(e) => setSettings({ ...settings, showCaptions: e.target.checked })}
+                  className="h-4 w-4 text-black border-gray-300 rounded focus:ring-black" />
+                <label htmlFor="captions-toggle" className="ml-2 block text-sm text-gray-900">Show live captions under the visualizer</label>
+              </div>
+              <p className="text-xs text-gray-500">The full transcript is always available from the button in the top-left corner.</p>
+            </div>
+
+            {/* --- Tool Call Settings --- */}
+            <div className="space-y-4 pt-4 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-700">Tool Calls</h3>
+              <div className="space-y-2">
+                <label htmlFor="tool-timeout" className="block text-sm font-medium text-gray-600">Default timeout (seconds)</label>
+                <input id="tool-timeout" type="number" min={1} value={settings.defaultToolTimeoutSec}
+                  onChange={(e) => setSettings({ ...settings, defaultToolTimeoutSec: Math.max(1, Number(e.target.value) || DEFAULT_TOOL_TIMEOUT_SEC) })}
+                  className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black" />
+                <p className="text-xs text-gray-500">A call that runs longer is cancelled and the model is told it timed out. Each tool below can override this.</p>
+              </div>
             </div>
 
             {/* --- Personality Settings --- */}
@@ -702,6 +968,10 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   className="w-full p-2 border border-gray-300 rounded-md h-24 shadow-sm focus:ring-black focus:border-black"
                 />
               </div>
+              <McpPromptPicker
+                servers={settings.mcpServers || []}
+                onApply={(personality) => setSettings((prev) => ({ ...prev, personality }))}
+              />
             </div>
 
 
@@ -712,12 +982,13 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               {/* Method 1: Manual URL (The reliable method) */}
               <div className="p-4 bg-blue-50 rounded-lg border border-blue-200 space-y-2">
                 <div className="flex justify-between items-center">
-                  <label htmlFor="mcp-url" className="block text-sm font-medium text-blue-900">MCP SSE URL</label>
+                  <label htmlFor="mcp-url" className="block text-sm font-medium text-blue-900">MCP Server URL</label>
                 </div>
 
                 <p className="text-xs text-blue-700 mb-2">
                   <strong>Proxy Mode:</strong> Enter <code>/mcp/t-XXXX/sse</code> to use the Vite proxy (avoids CORS). <br />
-                  <strong>Direct Mode:</strong> Enter <code>https://...</code> for full URLs.
+                  <strong>Direct Mode:</strong> Enter <code>https://...</code> for full URLs. <br />
+                  Streamable HTTP endpoints (e.g. <code>/mcp</code>) and legacy SSE endpoints are both detected automatically.
                 </p>
 
                 <div className="space-y-2">
@@ -777,9 +1048,81 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       <div className="overflow-hidden">
                         <p className="font-semibold text-gray-800 truncate max-w-[200px]">{server.name}</p>
                         <p className="text-xs text-gray-500 truncate max-w-[200px]">{server.postUrl}</p>
-                        <p className="text-xs text-green-600">{server.tools.length} tools available</p>
+                        <p className={`text-xs ${mcpStatusStyles[server.status] || mcpStatusStyles.unreachable}`} title={server.statusDetail}>
+                          {MCP_STATUS_LABELS[server.status] || server.status} · {server.tools.length} tools
+                          {server.resources && server.resources.length > 0 && ` · ${server.resources.length} resources`}
+                          {server.prompts && server.prompts.length > 0 && ` · ${server.prompts.length} prompts`} · {(server.transport || inferTransport(server.url)) === 'sse' ? 'SSE' : 'Streamable HTTP'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {server.lastCheckedAt ? `Checked ${new Date(server.lastCheckedAt).toLocaleString()}` : 'Not checked since it was added'}
+                        </p>
+                        {server.schemaWarnings && server.schemaWarnings.length > 0 && (
+                          <p className="text-xs text-amber-600" title={server.schemaWarnings.join('\n')}>
+                            {server.schemaWarnings.length} schema field(s) simplified for Gemini
+                          </p>
+                        )}
+                        <div className="flex items-center space-x-1 mt-1">
+                          <label htmlFor={`prefix-${server.id}`} className="text-xs text-gray-600">Tool prefix</label>
+                          <input
+                            id={`prefix-${server.id}`}
+                            type="text"
+                            placeholder="none"
+                            value={server.toolPrefix || ''}
+                            onChange={(e) => handleToolPrefixChange(server.id, e.target.value)}
+                            className="w-28 text-xs p-1 border border-gray-300 rounded-md focus:ring-black focus:border-black"
+                          />
+                        </div>
+                        {server.tools.length > 0 && (
+                          <details className="mt-1">
+                            <summary className="text-xs text-gray-600 cursor-pointer">Tool permissions</summary>
+                            <div className="mt-1 space-y-1">
+                              {server.tools.map(tool => {
+                                const exposedName = exposedMcpToolName(server, tool.name || '');
+                                const settingsKey = mcpToolSettingsKey(server.id, tool.name || '');
+                                return (
+                                  <div key={tool.name} className="flex items-center justify-between space-x-2">
+                                    <code className="text-xs text-gray-700 truncate" title={tool.description}>{exposedName}</code>
+                                    <div className="flex items-center space-x-1">
+                                      <ToolTimeoutInput
+                                        value={settings.toolTimeouts?.[settingsKey]}
+                                        defaultSec={settings.defaultToolTimeoutSec}
+                                        onChange={(seconds) => handleToolTimeoutChange(settingsKey, seconds)}
+                                      />
+                                      <ToolPolicySelect
+                                        policy={getToolPolicy(settings.toolPolicies, settingsKey)}
+                                        onChange={(policy) => handleToolPolicyChange(settingsKey, policy)}
+                                      />
+                                    </div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </details>
+                        )}
+                        {server.resources && server.resources.length > 0 && (
+                          <details className="mt-1">
+                            <summary className="text-xs text-gray-600 cursor-pointer">Resources</summary>
+                            <p className="text-xs text-gray-500 mt-1">The model can read any of these with read_resource. Pinned ones are read when a conversation starts.</p>
+                            <div className="mt-1 space-y-1">
+                              {server.resources.map(resource => (
+                                <label key={resource.uri} className="flex items-center space-x-2 text-xs text-gray-700" title={resource.description || resource.uri}>
+                                  <input
+                                    type="checkbox"
+                                    checked={server.pinnedResources?.includes(resource.uri) || false}
+                                    onChange={(e) => handlePinnedResourceChange(server.id, resource.uri, e.target.checked)}
+                                  />
+                                  <span className="truncate">{resourceLabel(resource)}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </details>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2 ml-2">
+                        <button onClick={() => handleRefreshMcp(server)} disabled={refreshingServerId === server.id}
+                          className="text-sm text-black hover:underline disabled:text-gray-400">
+                          {refreshingServerId === server.id ? 'Refreshing...' : 'Refresh'}
+                        </button>
                         <button onClick={() => setItemToTest(server)} className="text-sm text-black hover:underline">
                           Test
                         </button>
@@ -800,7 +1143,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
               {/* --- Add New Connection --- */}
               <div className="p-4 border border-gray-200 rounded-lg space-y-4">
-                <h4 className="font-medium text-gray-600">Add New N8N Webhook</h4>
+                <h4 className="font-medium text-gray-600">{editingConnectionId ? `Edit '${connectionDraft.name}'` : 'Add New N8N Webhook'}</h4>
 
                 <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
                   <label htmlFor="auto-config-url" className="block text-sm font-medium text-gray-600">Auto-configure from Webhook URL</label>
@@ -819,14 +1162,17 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 </div>
 
                 <div className="space-y-3">
-                  <input type="text" placeholder="Function Name (e.g. getWeather)" value={newConnectionName} onChange={(e) => setNewConnectionName(e.target.value)}
-                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-black focus:border-black" />
-                  <textarea placeholder="Description for AI (e.g. gets the weather for a city)" value={newConnectionDescription} onChange={(e) => setNewConnectionDescription(e.target.value)}
-                    className="w-full p-2 border border-gray-300 rounded-md h-20 focus:ring-black focus:border-black" />
-                  <input type="url" placeholder="Webhook URL" value={newConnectionUrl} onChange={(e) => setNewConnectionUrl(e.target.value)}
-                    className="w-full p-2 border border-gray-300 rounded-md focus:ring-black focus:border-black" />
-
-                  <button onClick={handleAddConnection} className="w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">Add Connection</button>
+                  <ConnectionEditor value={connectionDraft} onChange={setConnectionDraft} />
+                  {connectionError && <p className="text-sm text-red-600">{connectionError}</p>}
+
+                  <div className="flex space-x-2">
+                    <button onClick={handleAddConnection} className="flex-1 bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">
+                      {editingConnectionId ? 'Update Connection' : 'Add Connection'}
+                    </button>
+                    {editingConnectionId && (
+                      <button onClick={resetConnectionForm} className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100">Cancel</button>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -837,27 +1183,52 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 {settings.connections.length === 0 ? (
                   <p className="text-sm text-gray-500">No connections added yet.</p>
                 ) : (
-                  settings.connections.map((conn) => (
-                    <div key={conn.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md border border-gray-200">
-                      <div className="flex-1 overflow-hidden">
-                        <div className="flex items-center space-x-2">
-                          <p className="font-semibold text-gray-800 truncate">{conn.name}</p>
+                  settings.connections.map((conn) => {
+                    const settingsKey = webhookSettingsKey(conn);
+                    return (
+                      <div key={conn.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md border border-gray-200">
+                        <div className="flex-1 overflow-hidden">
+                          <div className="flex items-center space-x-2">
+                            <p className="font-semibold text-gray-800 truncate">{conn.name}</p>
+                          </div>
+                          <p className="text-sm text-gray-500 truncate">{conn.description}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {conn.method || 'POST'} · {getWebhookParameters(conn).map(p => p.name).join(', ') || 'no parameters'}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-2">
+                          <ToolTimeoutInput
+                            value={settings.toolTimeouts?.[settingsKey]}
+                            defaultSec={settings.defaultToolTimeoutSec}
+                            onChange={(seconds) => handleToolTimeoutChange(settingsKey, seconds)}
+                          />
+                          <ToolPolicySelect
+                            policy={getToolPolicy(settings.toolPolicies, settingsKey)}
+                            onChange={(policy) => handleToolPolicyChange(settingsKey, policy)}
+                          />
+                          <button onClick={() => handleEditConnection(conn)} className="text-sm text-black hover:underline">Edit</button>
+                          <button onClick={() => setItemToTest(conn)} className="text-sm text-black hover:underline">Test</button>
+                          <button onClick={() => setConnectionToRemove(conn)} className="text-sm text-black hover:underline">Remove</button>
                         </div>
-                        <p className="text-sm text-gray-500 truncate">{conn.description}</p>
-                      </div>
-                      <div className="flex items-center space-x-2 ml-2">
-                        <button onClick={() => setItemToTest(conn)} className="text-sm text-black hover:underline">Test</button>
-                        <button onClick={() => setConnectionToRemove(conn)} className="text-sm text-black hover:underline">Remove</button>
                       </div>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
             </div>
           </main>
 
           <footer className="p-6 border-t border-gray-200">
-            <button onClick={handleSave} className="w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">Save and Close</button>
+            {toolCollisions.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                <p className="font-semibold mb-1">Tool names must be unique:</p>
+                <ul className="list-disc pl-4 space-y-1">
+                  {toolCollisions.map(c => <li key={c.name}><code>{c.name}</code> — {c.sources.join(', ')}</li>)}
+                </ul>
+                <p className="mt-1 text-xs">Rename a webhook or give an MCP server a tool prefix.</p>
+              </div>
+            )}
+            <button onClick={handleSave} disabled={toolCollisions.length > 0} className="w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400">Save and Close</button>
           </footer>
         </div>
       </div>
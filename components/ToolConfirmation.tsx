@@ -0,0 +1,37 @@
+import React from 'react';
+import { describeProvider } from '../services/toolCalls';
+import { PendingConfirmation } from '../services/toolPolicy';
+
+interface ToolConfirmationProps {
+  pending: PendingConfirmation[];
+  onResolve: (callId: string, approved: boolean) => void;
+}
+
+// Approve/deny prompt for "Ask first" tools, shown over the visualizer. Calls are answered
+// oldest first; the user can also say yes or no.
+export const ToolConfirmation: React.FC<ToolConfirmationProps> = ({ pending, onResolve }) => {
+  const current = pending[0];
+  if (!current) return null;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none px-4">
+      <div className="pointer-events-auto w-full max-w-sm bg-white text-gray-900 rounded-lg shadow-2xl p-6" role="alertdialog" aria-labelledby="tool-confirmation-title">
+        <h3 id="tool-confirmation-title" className="text-lg font-semibold">
+          Allow <code>{current.name}</code>?
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">{describeProvider(current.provider)}</p>
+        <pre className="bg-gray-100 p-2 mt-3 rounded-md text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap break-all max-h-40">
+          {JSON.stringify(current.args, null, 2)}
+        </pre>
+        <p className="text-xs text-gray-500 mt-3">
+          Or say "yes" or "no".
+          {pending.length > 1 && ` ${pending.length - 1} more waiting.`}
+        </p>
+        <div className="mt-4 flex justify-end space-x-4">
+          <button onClick={() => onResolve(current.callId, false)} className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100">Deny</button>
+          <button onClick={() => onResolve(current.callId, true)} className="bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800">Approve</button>
+        </div>
+      </div>
+    </div>
+  );
+};
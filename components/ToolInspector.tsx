@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ToolCallRecord, ToolCallStatus, describeProvider } from '../services/toolCalls';
+
+interface ToolInspectorProps {
+  isOpen: boolean;
+  toolCalls: ToolCallRecord[];
+  canReplay: boolean;
+  onReplay: (callId: string) => void;
+  onClose: () => void;
+}
+
+const statusStyles: Record<ToolCallStatus, string> = {
+  'awaiting-approval': 'bg-yellow-100 text-yellow-800',
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  denied: 'bg-gray-200 text-gray-700',
+  cancelled: 'bg-gray-200 text-gray-700',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const ToolInspector: React.FC<ToolInspectorProps> = ({ isOpen, toolCalls, canReplay, onReplay, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // Newest first: the call being debugged is usually the last one
+  const ordered = [...toolCalls].reverse();
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-60 z-40" onClick={onClose}></div>
+      <div className="fixed top-0 right-0 h-full w-full max-w-lg bg-white text-gray-900 shadow-2xl z-50">
+        <div className="flex flex-col h-full">
+          <header className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-800">Tool Calls</h2>
+            <button onClick={onClose} className="text-sm text-black hover:underline">Close</button>
+          </header>
+
+          <main className="flex-1 p-6 space-y-2 overflow-y-auto">
+            {ordered.length === 0 ? (
+              <p className="text-sm text-gray-500">The model hasn't called any tools in this conversation.</p>
+            ) : (
+              ordered.map(call => {
+                const isExpanded = expandedId === call.id;
+                return (
+                  <div key={call.id} className="p-3 bg-gray-50 rounded-md border border-gray-200 text-xs">
+                    <button onClick={() => setExpandedId(isExpanded ? null : call.id)} className="w-full text-left">
+                      <div className="flex items-center justify-between">
+                        <p className="font-semibold text-gray-800 text-sm truncate">
+                          <code>{call.name}</code>
+                          {call.replayOf && <span className="ml-2 font-normal text-gray-500">(replay)</span>}
+                        </p>
+                        <span className={`px-2 py-0.5 rounded-full ${statusStyles[call.status]}`}>{call.status}</span>
+                      </div>
+                      <p className="text-gray-500 mt-1">
+                        {describeProvider(call.provider)} · {formatTime(call.startedAt)}
+                        {call.latencyMs !== undefined && ` · ${call.latencyMs} ms`}
+                      </p>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-gray-500">ID: <code>{call.id}</code>{call.replayOf && <> · replay of <code>{call.replayOf}</code></>}</p>
+                        <div>
+                          <h4 className="font-semibold text-gray-700">Arguments</h4>
+                          <pre className="bg-gray-100 p-2 rounded-md text-gray-800 overflow-x-auto whitespace-pre-wrap break-all max-h-40">
+                            {JSON.stringify(call.args, null, 2)}
+                          </pre>
+                        </div>
+                        {call.error && (
+                          <pre className="bg-red-50 border border-red-200 p-2 rounded-md text-red-800 whitespace-pre-wrap break-all">
+                            <span className="font-semibold">Error:</span> {call.error}
+                          </pre>
+                        )}
+                        {call.response && (
+                          <div>
+                            <h4 className="font-semibold text-gray-700">{call.replayOf ? 'Result (not sent to the model)' : 'Sent with sendToolResponse'}</h4>
+                            <pre className="bg-green-50 border border-green-200 p-2 rounded-md text-green-900 overflow-x-auto whitespace-pre-wrap break-all max-h-60">
+                              {JSON.stringify(call.response, null, 2)}
+                            </pre>
+                            {call.imageCount && (
+                              <p className="text-gray-500 mt-1">
+                                {call.imageCount} image(s) {call.replayOf ? 'returned' : 'sent to the session as image input'}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        <button
+                          onClick={() => onReplay(call.id)}
+                          disabled={!canReplay || call.status === 'running' || call.status === 'awaiting-approval'}
+                          className="bg-black text-white py-1 px-3 rounded-md hover:bg-gray-800 disabled:bg-gray-400"
+                          title={canReplay ? 'Run this call again with the same arguments' : 'Replays need a running conversation'}
+                        >
+                          Replay this call
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </main>
+        </div>
+      </div>
+    </>
+  );
+};
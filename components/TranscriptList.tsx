@@ -0,0 +1,49 @@
+import React from 'react';
+import { TranscriptEntry } from '../services/transcript';
+
+interface TranscriptListProps {
+  transcript: TranscriptEntry[];
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatResult = (result: unknown) =>
+  typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+// Turn-by-turn rendering shared by the live transcript drawer and the history view.
+export const TranscriptList: React.FC<TranscriptListProps> = ({ transcript }) => (
+  <div className="space-y-4">
+    {transcript.map(entry => {
+      if (entry.role === 'tool' && entry.toolCall) {
+        return (
+          <div key={entry.id} className="p-3 bg-gray-50 rounded-md border border-gray-200 text-xs">
+            <p className="font-semibold text-gray-700">
+              Tool call: <code>{entry.toolCall.name}</code>
+              <span className="ml-2 font-normal text-gray-400">{formatTime(entry.timestamp)}</span>
+            </p>
+            <pre className="mt-1 text-gray-600 whitespace-pre-wrap break-all">{JSON.stringify(entry.toolCall.args, null, 2)}</pre>
+            {entry.toolCall.result !== undefined ? (
+              <pre className="mt-1 p-2 bg-green-50 border border-green-200 rounded text-green-900 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+                {formatResult(entry.toolCall.result)}
+              </pre>
+            ) : (
+              <p className="mt-1 text-gray-500">Running...</p>
+            )}
+          </div>
+        );
+      }
+      return (
+        <div key={entry.id} className={entry.role === 'user' ? 'text-right' : 'text-left'}>
+          <p className="text-xs text-gray-400 mb-1">
+            {entry.role === 'user' ? 'You' : 'Gemini'} · {formatTime(entry.timestamp)}
+            {entry.interrupted && <span className="ml-1 text-red-500">(interrupted)</span>}
+          </p>
+          <p className={`inline-block p-3 rounded-lg text-sm text-left ${entry.role === 'user' ? 'bg-black text-white' : 'bg-gray-100 text-gray-900'} ${entry.final ? '' : 'opacity-70'}`}>
+            {entry.text.trim()}
+          </p>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../services/transcript';
+import { TranscriptList } from './TranscriptList';
+
+interface TranscriptPanelProps {
+  isOpen: boolean;
+  transcript: TranscriptEntry[];
+  onClose: () => void;
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ isOpen, transcript, onClose }) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest turn in view while the conversation is running
+  useEffect(() => {
+    if (isOpen) bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [isOpen, transcript]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-60 z-40" onClick={onClose}></div>
+      <div className="fixed top-0 left-0 h-full w-full max-w-md bg-white text-gray-900 shadow-2xl z-50">
+        <div className="flex flex-col h-full">
+          <header className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-800">Transcript</h2>
+            <button onClick={onClose} className="text-sm text-black hover:underline">Close</button>
+          </header>
+
+          <main className="flex-1 p-6 space-y-4 overflow-y-auto">
+            {transcript.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing has been said yet.</p>
+            ) : (
+              <TranscriptList transcript={transcript} />
+            )}
+            <div ref={bottomRef} />
+          </main>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Asks for the vault passphrase once per page load, before secrets are needed.
+export const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ isOpen, onUnlock, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+      setPassphrase('');
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white text-gray-900 rounded-lg shadow-xl p-6 w-full max-w-sm">
+        <h3 className="text-lg font-semibold mb-2">Unlock Secrets</h3>
+        <p className="text-sm text-gray-600 mb-4">Your API key and webhook credentials are encrypted. Enter your passphrase to use them in this session.</p>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleUnlock(); }}
+          placeholder="Passphrase"
+          className="w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-black focus:border-black"
+        />
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        <div className="mt-6 flex justify-end space-x-4">
+          <button onClick={onClose} className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-100">Not now</button>
+          <button onClick={handleUnlock} disabled={isUnlocking || !passphrase} className="bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400">
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
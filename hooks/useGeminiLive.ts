@@ -1,6 +1,35 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveSession, LiveServerMessage, Blob, FunctionDeclaration, Type } from '@google/genai';
+import { GoogleGenAI, Modality, Session, LiveServerMessage, Blob, FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
 import { Connection, McpServer } from '../components/SettingsPanel';
+import { McpClient, McpInitializeResult, inferTransport } from '../services/mcpClient';
+import { classifyMcpFailure, listMcpCatalog, snapshotMcpServer } from '../services/mcpServers';
+import { READ_RESOURCE_TOOL, findResourceServer, formatPinnedResources, readResourceDeclaration, resourceContentsToText } from '../services/mcpResources';
+import { TranscriptEntry, addToolCall, addTypedTurn, appendTranscription, completeTurn, markInterrupted, setToolResult } from '../services/transcript';
+import { ConversationRecord, saveConversation } from '../services/historyStore';
+import {
+  ToolCallAbortError,
+  ToolCallRecord,
+  ToolOutput,
+  ToolProvider,
+  abortable,
+  approveToolCall,
+  beginToolCall,
+  describeProvider,
+  finishToolCall,
+  getToolTimeoutMs,
+} from '../services/toolCalls';
+import { callWebhook } from '../services/webhook';
+import { interpretMcpToolResult } from '../services/mcpResults';
+import { ToolEntry, buildToolRegistry, toolSettingsKey } from '../services/toolNames';
+import { redactSecrets } from '../services/secretVault';
+import { CONFIRMATION_LISTEN_DELAY_MS, PendingConfirmation, ToolPolicies, ToolPolicy, getToolPolicy, parseSpokenConfirmation } from '../services/toolPolicy';
+import { CAPTURE_SAMPLE_RATE, PcmCapture, createPcmCapture, loadPcmCaptureWorklet } from '../services/audioCapture';
+import { DEFAULT_FRAME_SAMPLER_SETTINGS, FrameSamplerSettings, FrameSamplerStats, captureFrame, createFrameSampler } from '../services/frameSampler';
+import { describeCameras, findCamera, pickDefaultCamera, sameCameras } from '../services/cameras';
+import { AudioDeviceSettings, DEFAULT_AUDIO_DEVICE_SETTINGS, availableDeviceId, listAudioDevices, micConstraints, pickInputDevice, routeOutput } from '../services/audioDevices';
+import { AudioLevels, SILENT_LEVEL, createVisualAnalyser, readAnalyser } from '../services/audioLevels';
+import { ConversationActivity, ConversationEvent, IDLE_ACTIVITY, INITIAL_VOICE_ACTIVITY, detectVoiceActivity, transitionActivity } from '../services/conversationActivity';
+import { LIVE_AUDIO_MODEL, LIVE_TEXT_MODEL, MicMode, ReplyMode } from '../services/conversationModes';
 
 // --- Type Definitions ---
 export enum ConversationState {
@@ -8,6 +37,7 @@ export enum ConversationState {
   CONNECTING,
   ACTIVE,
   ERROR,
+  RECONNECTING,
 }
 
 export interface ConversationSettings {
@@ -17,6 +47,15 @@ export interface ConversationSettings {
   connections: Connection[];
   mcpServers: McpServer[];
   personality: string;
+  micChunkMs?: number;
+  toolPolicies?: ToolPolicies;
+  toolTimeouts?: Record<string, number>; // Seconds, per tool name
+  defaultToolTimeoutSec?: number;
+  videoFrames?: FrameSamplerSettings;
+  replyMode?: ReplyMode;
+  textOnly?: boolean; // Typed input only: the microphone is never opened
+  micMode?: MicMode;
+  audioDevices?: AudioDeviceSettings;
 }
 
 // --- Audio Utility Functions ---
@@ -59,70 +98,196 @@ async function decodeAudioData(
   return buffer;
 }
 
-function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+// Wraps a 16 kHz Int16 PCM chunk from the capture worklet for sendRealtimeInput.
+function createPcmBlob(pcm: ArrayBuffer): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm)),
+    mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
   };
 }
 
+// --- Reconnection ---
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 16000;
+// Close codes that retrying cannot fix (invalid argument / policy violation, e.g. a bad API key).
+const FATAL_CLOSE_CODES = [1007, 1008];
+
+const reconnectDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+// After goAway, running tool calls may finish until this long before the server's deadline.
+const GO_AWAY_MARGIN_MS = 1000;
+// How long a changed MCP tool list waits for running calls before the session is replaced anyway.
+const LIST_CHANGED_MAX_WAIT_MS = 15000;
+
+/** Milliseconds in a protobuf Duration string such as '5s' or '1.5s'; 0 when it can't be read. */
+const durationMs = (duration: string | undefined): number => {
+  const seconds = parseFloat(duration || '');
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+};
+
+// --- Activity ---
+
+// How often the local voice activity detector reads the mic level.
+const VAD_INTERVAL_MS = 50;
+// Back to listening if the model hasn't answered a turn by then (usually the detector heard noise).
+const WAITING_TIMEOUT_MS = 8000;
+
 // --- The Custom Hook ---
 
-export const useGeminiLive = () => {
+export interface UseGeminiLiveOptions {
+  /** Called when a conversation re-checks an MCP server: new tools, name or health. */
+  onMcpServerUpdate?: (server: McpServer) => void;
+}
+
+export const useGeminiLive = (options: UseGeminiLiveOptions = {}) => {
   const [conversationState, setConversationState] = useState<ConversationState>(ConversationState.IDLE);
   const [isGeminiSpeaking, setIsGeminiSpeaking] = useState<boolean>(false);
+  // The fine-grained state (who is talking, which tools run); `conversationState` is the connection lifecycle.
+  const [activity, setActivity] = useState<ConversationActivity>(IDLE_ACTIVITY);
+  const dispatchActivity = useCallback((event: ConversationEvent) => setActivity(prev => transitionActivity(prev, event)), []);
   const [isCameraActive, setIsCameraActive] = useState<boolean>(false);
+  const [isScreenSharing, setIsScreenSharing] = useState<boolean>(false);
+  // Set when the model asked to see the screen but the browser wants a click to allow it.
+  const [isScreenShareRequested, setIsScreenShareRequested] = useState<boolean>(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [toolCalls, setToolCalls] = useState<ToolCallRecord[]>([]);
+  const [pendingConfirmations, setPendingConfirmations] = useState<PendingConfirmation[]>([]);
+
+  // History refs: stopConversation reads the latest transcript from a ref, not a stale closure.
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const conversationMetaRef = useRef<Omit<ConversationRecord, 'endedAt' | 'durationMs' | 'transcript'> | null>(null);
+  useEffect(() => { transcriptRef.current = transcript; }, [transcript]);
 
   // Session refs
-  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+  const mcpSessionsRef = useRef<Map<string, McpClient>>(new Map());
+  const onMcpServerUpdateRef = useRef(options.onMcpServerUpdate);
+  onMcpServerUpdateRef.current = options.onMcpServerUpdate;
+  // The running conversation's tool dispatch, kept for replays from the inspector.
+  const toolRunnerRef = useRef<{
+    resolveProvider: (name: string) => ToolProvider | null;
+    executeTool: (name: string, args: Record<string, unknown>, provider: ToolProvider, signal: AbortSignal) => Promise<ToolOutput>;
+    timeoutMs: (name: string) => number;
+    policy: (name: string) => ToolPolicy;
+    requestConfirmation: (callId: string, name: string, args: Record<string, unknown>, provider: ToolProvider) => Promise<boolean>;
+  } | null>(null);
+  // One AbortController per tool call in flight, by call id, and who waits for there to be none.
+  const toolAbortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const toolsIdleWaitersRef = useRef<(() => void)[]>([]);
+  // Every ai.live.connect gets a new id; callbacks from older connections are ignored.
+  const connectionIdRef = useRef<number>(0);
+  const isSessionOpenRef = useRef<boolean>(false);
+  const hasOpenedRef = useRef<boolean>(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Confirmation refs: resolvers for calls waiting on the user, oldest first, what the user has
+  // said in this turn since the current prompt appeared, and when it started listening.
+  const confirmationResolversRef = useRef<Map<string, (approved: boolean) => void>>(new Map());
+  const confirmationSpeechRef = useRef<string>('');
+  const confirmationShownAtRef = useRef<number>(0);
 
   // Audio refs
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const speakingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Visualizer taps: the mic after capture, and Gemini's voice on its way to the speaker.
+  const inputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  // Mic chunks only go to Gemini while the mic is live. The mode is null in text-only conversations.
+  const micModeRef = useRef<MicMode | null>(null);
+  const micLiveRef = useRef<boolean>(false);
+  const [micMode, setMicMode] = useState<MicMode | null>(null);
+  const [isMicLive, setIsMicLive] = useState<boolean>(false);
+  // The running conversation's device choices, for switching when devices come and go.
+  const audioDevicesRef = useRef<AudioDeviceSettings>(DEFAULT_AUDIO_DEVICE_SETTINGS);
+  const micChunkMsRef = useRef<number | undefined>(undefined);
+  const isSwitchingMicRef = useRef<boolean>(false);
 
   // Video refs
-  const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
+  // The camera tools read the current list from here, not from the list when the conversation started.
+  const availableCamerasRef = useRef<MediaDeviceInfo[]>([]);
   const [activeCameraDeviceId, setActiveCameraDeviceId] = useState<string | null>(null);
   const [activeVideoStream, setActiveVideoStream] = useState<MediaStream | null>(null);
   const videoStreamRef = useRef<MediaStream | null>(null);
-  const frameIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const stopCameraFramesRef = useRef<(() => void) | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const stopScreenFramesRef = useRef<(() => void) | null>(null);
+  // Frame settings of the running conversation, and what the active video source has sent.
+  const frameSettingsRef = useRef<FrameSamplerSettings>(DEFAULT_FRAME_SAMPLER_SETTINGS);
+  const [videoStats, setVideoStats] = useState<FrameSamplerStats | null>(null);
 
-  // On hook initialization, enumerate cameras
+  // Enumerate cameras on mount, and again whenever a device is plugged in or removed. A running
+  // conversation is told about the new list, since its system instruction has the old one.
   useEffect(() => {
+    const refreshCameras = async () => {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const videoDevices = devices.filter(device => device.kind === 'videoinput');
+      if (sameCameras(videoDevices, availableCamerasRef.current)) return;
+      availableCamerasRef.current = videoDevices;
+      if (!isSessionOpenRef.current) return;
+      console.log(`[Live] Cameras changed: ${describeCameras(videoDevices)}.`);
+      sessionPromiseRef.current?.then(session => session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `[The available cameras changed. They are now: ${describeCameras(videoDevices)}.]` }] }],
+        turnComplete: false,
+      }));
+    };
     const enumerateCameras = async () => {
       try {
+        // Labels are only visible once camera access has been granted.
         const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
         stream.getTracks().forEach(track => track.stop());
-
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const videoDevices = devices.filter(device => device.kind === 'videoinput');
-        if (videoDevices.length > 0) {
-          setAvailableCameras(videoDevices);
-        }
+        await refreshCameras();
       } catch (error) {
         console.warn("Could not enumerate camera devices. The feature might be limited.", error);
       }
     };
+    const handleDeviceChange = () => {
+      refreshCameras().catch(error => console.warn("Could not re-enumerate camera devices:", error));
+    };
     enumerateCameras();
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, []);
+
+  // Samples frames from a camera or screen stream into the session. Returns a function that stops
+  // sampling; the stream's tracks are left to the caller.
+  const streamVideoFrames = useCallback((stream: MediaStream, onError: (error: unknown) => void): (() => void) => {
+    const sampler = createFrameSampler(stream, {
+      ...frameSettingsRef.current,
+      onFrame: (frame: Blob) => {
+        sessionPromiseRef.current?.then(session => {
+          session.sendRealtimeInput({ media: frame });
+        });
+      },
+      onStats: setVideoStats,
+      onError,
+    });
+    return () => {
+      sampler.stop();
+      setVideoStats(null);
+    };
+  }, []);
+
+  const stopScreenShare = useCallback(() => {
+    stopScreenFramesRef.current?.();
+    stopScreenFramesRef.current = null;
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setScreenStream(null);
+    setIsScreenSharing(false);
   }, []);
 
   const stopCameraStream = useCallback(() => {
-    if (frameIntervalRef.current) {
-      clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
-    }
+    stopCameraFramesRef.current?.();
+    stopCameraFramesRef.current = null;
     if (videoStreamRef.current) {
       videoStreamRef.current.getTracks().forEach(track => track.stop());
       videoStreamRef.current = null;
@@ -135,6 +300,8 @@ export const useGeminiLive = () => {
     if (!sessionPromiseRef.current) return;
 
     stopCameraStream();
+    // One visual source at a time: the model can't tell interleaved camera and screen frames apart.
+    stopScreenShare();
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -144,44 +311,247 @@ export const useGeminiLive = () => {
       setActiveVideoStream(stream);
       videoStreamRef.current = stream;
 
-      const videoTrack = stream.getVideoTracks()[0];
-      // @ts-ignore
-      const imageCapture = new ImageCapture(videoTrack);
-
-      frameIntervalRef.current = setInterval(async () => {
-        try {
-          const imageBitmap = await imageCapture.grabFrame();
-          const canvas = document.createElement('canvas');
-          canvas.width = imageBitmap.width;
-          canvas.height = imageBitmap.height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(imageBitmap, 0, 0);
-          const base64Data = canvas.toDataURL('image/jpeg', 0.5).split(',')[1];
-
-          const imageBlob: Blob = {
-            data: base64Data,
-            mimeType: 'image/jpeg',
-          };
-          sessionPromiseRef.current?.then(session => {
-            session.sendRealtimeInput({ media: imageBlob });
-          });
-        } catch (e) {
-          console.error("Could not grab frame:", e);
-          stopCameraStream();
-          setIsCameraActive(false);
-        }
-      }, 1000 / 2); // 2 FPS
+      stopCameraFramesRef.current = streamVideoFrames(stream, (e) => {
+        console.error("Could not grab frame:", e);
+        stopCameraStream();
+        setIsCameraActive(false);
+      });
     } catch (e) {
       console.error("Failed to start camera stream:", e);
       setErrorMessage("Could not access camera. Please check permissions.");
       setIsCameraActive(false);
     }
-  }, [stopCameraStream]);
+  }, [stopCameraStream, stopScreenShare, streamVideoFrames]);
+
+  // Shows the browser's screen, window or tab picker and streams the choice like the camera.
+  // Browsers only open the picker right after a user gesture, so a call from the model can be
+  // refused (InvalidStateError) until the user clicks the share button; cancelling the picker
+  // rejects with NotAllowedError.
+  const startScreenShare = useCallback(async () => {
+    if (!sessionPromiseRef.current) throw new Error('There is no conversation to share the screen with.');
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    stopScreenShare();
+    setIsCameraActive(false);
+    setIsScreenShareRequested(false);
+
+    screenStreamRef.current = stream;
+    setScreenStream(stream);
+    setIsScreenSharing(true);
+    // The browser's own "Stop sharing" control ends the track.
+    stream.getVideoTracks()[0]?.addEventListener('ended', stopScreenShare);
+    stopScreenFramesRef.current = streamVideoFrames(stream, (e) => {
+      console.error("Could not grab screen frame:", e);
+      stopScreenShare();
+    });
+  }, [stopScreenShare, streamVideoFrames]);
+
+  const toggleScreenShare = useCallback(() => {
+    if (screenStreamRef.current) {
+      stopScreenShare();
+      return;
+    }
+    startScreenShare().catch(e => {
+      setIsScreenShareRequested(false);
+      if ((e as DOMException)?.name === 'NotAllowedError') return; // The user cancelled the picker
+      console.error("Failed to start screen share:", e);
+      setErrorMessage("Could not share the screen.");
+    });
+  }, [startScreenShare, stopScreenShare]);
+
+  // Answers a pending confirmation, from the prompt's buttons or a spoken yes/no.
+  const resolveConfirmation = useCallback((callId: string, approved: boolean) => {
+    const resolve = confirmationResolversRef.current.get(callId);
+    if (!resolve) return;
+    confirmationResolversRef.current.delete(callId);
+    confirmationSpeechRef.current = '';
+    confirmationShownAtRef.current = Date.now(); // The next prompt, if any, comes up now
+    setPendingConfirmations(prev => prev.filter(p => p.callId !== callId));
+    resolve(approved);
+  }, []);
+
+  // Sends a typed message as a complete user turn. While a tool prompt is open, a message that is
+  // just a yes or no answers it instead of going to the model; anything longer is sent as usual.
+  const sendText = useCallback((text: string) => {
+    if (!isSessionOpenRef.current || !sessionPromiseRef.current) return;
+    const [waitingCallId] = confirmationResolversRef.current.keys();
+    const approved = waitingCallId ? parseSpokenConfirmation(text) : null;
+    if (waitingCallId && approved !== null) {
+      resolveConfirmation(waitingCallId, approved);
+      return;
+    }
+    setTranscript(prev => addTypedTurn(prev, text));
+    dispatchActivity({ type: 'user-text' });
+    sessionPromiseRef.current.then(session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true,
+    }));
+  }, [resolveConfirmation, dispatchActivity]);
+
+  const setMicLive = useCallback((live: boolean) => {
+    micLiveRef.current = live;
+    setIsMicLive(live);
+  }, []);
+
+  // Push-to-talk: holding the key or button is the user's turn. The server's activity detection
+  // is off in this mode, so the turn is opened and closed explicitly.
+  const startTalking = useCallback(() => {
+    if (micModeRef.current !== 'push-to-talk' || micLiveRef.current || !isSessionOpenRef.current) return;
+    setMicLive(true);
+    sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ activityStart: {} }));
+  }, [setMicLive]);
+
+  const stopTalking = useCallback(() => {
+    if (micModeRef.current !== 'push-to-talk' || !micLiveRef.current) return;
+    setMicLive(false);
+    if (!isSessionOpenRef.current) return;
+    sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ activityEnd: {} }));
+  }, [setMicLive]);
+
+  // Toggle mode. Muting ends the audio stream, so the server doesn't wait for silence that
+  // will never arrive to close a turn cut off mid-sentence.
+  const toggleMute = useCallback(() => {
+    if (micModeRef.current !== 'toggle') return;
+    const live = !micLiveRef.current;
+    setMicLive(live);
+    if (live || !isSessionOpenRef.current) return;
+    sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+  }, [setMicLive]);
+
+  // Streams the current mic stream into the session, replacing any previous capture. The pipeline
+  // outlives reconnects; it is only rebuilt when the microphone itself changes.
+  const startMicCapture = useCallback(() => {
+    pcmCaptureRef.current?.stop();
+    pcmCaptureRef.current = null;
+    inputAnalyserRef.current = null;
+    if (!mediaStreamRef.current || !inputAudioContextRef.current) return;
+    pcmCaptureRef.current = createPcmCapture(inputAudioContextRef.current, mediaStreamRef.current, {
+      chunkMs: micChunkMsRef.current,
+      onChunk: (pcm) => {
+        // Drop audio while muted, and while reconnecting rather than replaying it in a burst.
+        if (!isSessionOpenRef.current || !micLiveRef.current) return;
+        const pcmBlob = createPcmBlob(pcm);
+        sessionPromiseRef.current?.then((session) => { session.sendRealtimeInput({ media: pcmBlob }); });
+      },
+    });
+    inputAnalyserRef.current = createVisualAnalyser(inputAudioContextRef.current);
+    pcmCaptureRef.current.source.connect(inputAnalyserRef.current);
+  }, []);
+
+  // Read by the visualizer every animation frame, so levels never go through React state. The
+  // mic reads as silent while muted: what the visualizer shows is what Gemini hears.
+  const readAudioLevels = useCallback((): AudioLevels => ({
+    input: micLiveRef.current ? readAnalyser(inputAnalyserRef.current) : SILENT_LEVEL,
+    output: readAnalyser(outputAnalyserRef.current),
+  }), []);
+
+  // Follows headsets plugged in or removed mid-conversation. The mic switches when the chosen one
+  // comes back, when the one in use goes away, or (on the system default) when the default
+  // changes; output is re-routed the same way.
+  const refreshAudioDevices = useCallback(async () => {
+    const { inputs, outputs } = await listAudioDevices();
+    const devices = audioDevicesRef.current;
+    if (outputAudioContextRef.current) {
+      await routeOutput(outputAudioContextRef.current, availableDeviceId(devices.outputDeviceId, outputs))
+        .catch(e => console.warn('[Live] Could not switch the speaker:', e));
+    }
+
+    const track = mediaStreamRef.current?.getAudioTracks()[0];
+    if (!track || !inputAudioContextRef.current || isSwitchingMicRef.current) return;
+    const target = pickInputDevice(devices, inputs);
+    if (track.readyState === 'live' && (!target || target.groupId === track.getSettings().groupId)) return;
+
+    isSwitchingMicRef.current = true;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(devices) });
+      // The conversation may have ended while the browser was opening the device.
+      if (!inputAudioContextRef.current || !mediaStreamRef.current) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      mediaStreamRef.current.getTracks().forEach(t => t.stop());
+      mediaStreamRef.current = stream;
+      startMicCapture();
+      console.log(`[Live] Switched microphone to ${stream.getAudioTracks()[0]?.label || 'the default device'}.`);
+    } finally {
+      isSwitchingMicRef.current = false;
+    }
+  }, [startMicCapture]);
+
+  useEffect(() => {
+    const handleDeviceChange = () => {
+      refreshAudioDevices().catch(error => console.warn('[Live] Could not switch audio devices:', error));
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refreshAudioDevices]);
+
+  // Local voice activity detection on the mic level, so the UI reacts the moment the user starts
+  // talking instead of waiting for the server's transcription.
+  useEffect(() => {
+    if (conversationState !== ConversationState.ACTIVE) return;
+    let vad = INITIAL_VOICE_ACTIVITY;
+    const interval = setInterval(() => {
+      const next = detectVoiceActivity(vad, readAudioLevels().input.level, Date.now());
+      if (next.speaking !== vad.speaking) dispatchActivity({ type: next.speaking ? 'user-speech-start' : 'user-speech-end' });
+      vad = next;
+    }, VAD_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [conversationState, readAudioLevels, dispatchActivity]);
+
+  useEffect(() => {
+    if (activity.phase !== 'waiting') return;
+    const timer = setTimeout(() => dispatchActivity({ type: 'wait-timeout' }), WAITING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [activity, dispatchActivity]);
+
+  const notifyToolsIdle = useCallback(() => {
+    if (toolAbortControllersRef.current.size > 0) return;
+    toolsIdleWaitersRef.current.splice(0).forEach(resolve => resolve());
+  }, []);
+
+  // Resolves once no tool call is in flight, counting calls awaiting approval and replays.
+  const whenToolsIdle = useCallback((): Promise<void> => {
+    if (toolAbortControllersRef.current.size === 0) return Promise.resolve();
+    return new Promise(resolve => { toolsIdleWaitersRef.current.push(resolve); });
+  }, []);
+
+  const endToolRun = useCallback((id: string) => {
+    toolAbortControllersRef.current.delete(id);
+    notifyToolsIdle();
+  }, [notifyToolsIdle]);
+
+  // Cancels every tool call in flight and dismisses open prompts. Cancelled calls get no response.
+  const cancelToolCalls = useCallback((message: string) => {
+    toolAbortControllersRef.current.forEach(controller => controller.abort(new ToolCallAbortError(message, 'cancelled')));
+    toolAbortControllersRef.current.clear();
+    [...confirmationResolversRef.current.keys()].forEach(callId => resolveConfirmation(callId, false));
+    notifyToolsIdle();
+  }, [resolveConfirmation, notifyToolsIdle]);
 
   const stopConversation = useCallback(async () => {
     if (speakingTimeoutRef.current) {
       clearTimeout(speakingTimeoutRef.current);
     }
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    // Invalidate the current connection so its onclose doesn't trigger a reconnect.
+    connectionIdRef.current++;
+    isSessionOpenRef.current = false;
+    hasOpenedRef.current = false;
+    resumptionHandleRef.current = null;
+    reconnectAttemptsRef.current = 0;
+    cancelToolCalls('The conversation ended.');
+
+    // Store the finished conversation locally (see HistoryPanel).
+    const meta = conversationMetaRef.current;
+    conversationMetaRef.current = null;
+    if (meta && transcriptRef.current.length > 0) {
+      const endedAt = Date.now();
+      saveConversation({ ...meta, endedAt, durationMs: endedAt - meta.startedAt, transcript: completeTurn(transcriptRef.current) })
+        .catch(e => console.error("Failed to save conversation history:", e));
+    }
 
     if (sessionPromiseRef.current) {
       try {
@@ -192,28 +562,47 @@ export const useGeminiLive = () => {
       }
     }
 
+    toolRunnerRef.current = null;
+    mcpSessionsRef.current.forEach(client => client.close());
+    mcpSessionsRef.current.clear();
+
     mediaStreamRef.current?.getTracks().forEach((track) => track.stop());
     stopCameraStream();
+    stopScreenShare();
+    setIsScreenShareRequested(false);
 
-    scriptProcessorRef.current?.disconnect();
-    mediaStreamSourceRef.current?.disconnect();
+    pcmCaptureRef.current?.stop();
     inputAudioContextRef.current?.close();
     outputAudioContextRef.current?.close();
 
     // Reset all refs and state
     sessionPromiseRef.current = null;
     mediaStreamRef.current = null;
-    scriptProcessorRef.current = null;
-    mediaStreamSourceRef.current = null;
+    pcmCaptureRef.current = null;
     inputAudioContextRef.current = null;
     outputAudioContextRef.current = null;
+    inputAnalyserRef.current = null;
+    outputAnalyserRef.current = null;
     nextStartTimeRef.current = 0;
     audioSourcesRef.current.clear();
+    micModeRef.current = null;
+    setMicMode(null);
+    setMicLive(false);
+
     setConversationState(ConversationState.IDLE);
+    dispatchActivity({ type: 'stop' });
     setIsGeminiSpeaking(false);
     setIsCameraActive(false);
     setErrorMessage(null);
-  }, [stopCameraStream]);
+  }, [stopCameraStream, stopScreenShare, cancelToolCalls, setMicLive, dispatchActivity]);
+
+  // Tears the conversation down but keeps the error visible.
+  const failConversation = useCallback(async (message: string) => {
+    await stopConversation();
+    setErrorMessage(message);
+    setConversationState(ConversationState.ERROR);
+    dispatchActivity({ type: 'fail', message });
+  }, [stopConversation, dispatchActivity]);
 
   const toggleCamera = useCallback(() => {
     setIsCameraActive(prev => !prev);
@@ -233,7 +622,16 @@ export const useGeminiLive = () => {
 
   const startConversation = useCallback(async (settings: ConversationSettings) => {
     setConversationState(ConversationState.CONNECTING);
+    dispatchActivity({ type: 'connect' });
     setErrorMessage(null);
+    setTranscript([]);
+    setToolCalls([]);
+    frameSettingsRef.current = { ...DEFAULT_FRAME_SAMPLER_SETTINGS, ...settings.videoFrames };
+    // Starting waits on the mic prompt, MCP sessions and pinned resources. stopConversation bumps
+    // the connection id, so a start that was stopped meanwhile gives up after each wait, closing
+    // anything it opened after the stop.
+    const startId = connectionIdRef.current;
+    const wasStopped = () => connectionIdRef.current !== startId;
 
     try {
       const gApiKey = settings.apiKey || process.env.GEMINI_API_KEY || '';
@@ -242,10 +640,74 @@ export const useGeminiLive = () => {
       }
       const ai = new GoogleGenAI({ apiKey: gApiKey });
 
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      const replyMode = settings.replyMode || 'voice';
+      const speaks = replyMode !== 'text';
+
+      // The input context runs at the device's native rate; the capture worklet resamples to 16 kHz.
+      // Text-only conversations never ask for the microphone.
+      if (!settings.textOnly) {
+        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        await loadPcmCaptureWorklet(inputAudioContextRef.current);
+        if (wasStopped()) return;
+      }
       outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      outputAnalyserRef.current = createVisualAnalyser(outputAudioContextRef.current);
+      outputAnalyserRef.current.connect(outputAudioContextRef.current.destination);
+
+      const audioDevices = { ...DEFAULT_AUDIO_DEVICE_SETTINGS, ...settings.audioDevices };
+      audioDevicesRef.current = audioDevices;
+      micChunkMsRef.current = settings.micChunkMs;
+      if (!settings.textOnly) {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(audioDevices) });
+        if (wasStopped()) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        mediaStreamRef.current = stream;
+      }
+      // Enumerated after getUserMedia: device ids are hidden until the page has mic access.
+      const { outputs } = await listAudioDevices();
+      await routeOutput(outputAudioContextRef.current, availableDeviceId(audioDevices.outputDeviceId, outputs))
+        .catch(e => console.warn('[Live] Could not use the chosen speaker; playing on the default:', e));
+      if (wasStopped()) return;
+      const micMode = settings.textOnly ? null : settings.micMode || 'open';
+      micModeRef.current = micMode;
+      setMicMode(micMode);
+      setMicLive(micMode === 'open' || micMode === 'toggle');
 
-      mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Open a live MCP session per server and re-list its tools and resources, so the
+      // conversation declares what the server offers now. A server that fails to connect keeps its cached tools
+      // declared; calls to it report the connection error instead of aborting the conversation.
+      const mcpConnectErrors = new Map<string, string>();
+      const liveMcpServers = new Map<string, McpServer>((settings.mcpServers || []).map(server => [server.id, server]));
+      const mcpInitResults = new Map<string, McpInitializeResult>();
+      const updateMcpServer = (server: McpServer) => {
+        liveMcpServers.set(server.id, server);
+        onMcpServerUpdateRef.current?.(server);
+      };
+      await Promise.all((settings.mcpServers || []).map(async server => {
+        try {
+          const { client, init } = await McpClient.open({
+            url: server.url,
+            transport: server.transport || inferTransport(server.url),
+            useCredentials: server.useCredentials,
+          });
+          if (wasStopped()) {
+            client.close();
+            return;
+          }
+          mcpSessionsRef.current.set(server.id, client);
+          mcpInitResults.set(server.id, init);
+          updateMcpServer({ ...server, ...snapshotMcpServer(client, init, await listMcpCatalog(client, init)) });
+        } catch (e) {
+          if (wasStopped()) return; // Closed by the stop, not broken
+          console.error(`Could not open MCP session for ${server.name}:`, e);
+          mcpConnectErrors.set(server.id, (e as Error).message);
+          updateMcpServer({ ...server, status: classifyMcpFailure(e), statusDetail: (e as Error).message, lastCheckedAt: Date.now() });
+        }
+      }));
+      // Sessions opened before the stop were in mcpSessionsRef, so stopConversation closed them.
+      if (wasStopped()) return;
 
       const personalityInstruction = settings.personality;
       const fallbackInstruction = settings.emotion
@@ -254,33 +716,25 @@ export const useGeminiLive = () => {
       let baseSystemInstruction = personalityInstruction || fallbackInstruction;
 
       // Add camera context to the system prompt
-      if (availableCameras.length > 0) {
-        const cameraNames = availableCameras.map(cam => `'${cam.label}'`).join(', ');
-        const cameraInstruction = ` You have a tool called 'start_camera_view' to see through the user's camera. The available cameras are: ${cameraNames}. When the user asks you to look at something, call this tool. You can specify which camera to use by its label. On a phone, the back camera is usually best for looking at things.`;
+      if (availableCamerasRef.current.length > 0 && getToolPolicy(settings.toolPolicies, 'start_camera_view') !== 'disabled') {
+        const cameraNames = describeCameras(availableCamerasRef.current);
+        const cameraInstruction = ` You have a tool called 'start_camera_view' to see through the user's camera. The available cameras are: ${cameraNames}. When the user asks you to look at something, call this tool. You can specify which camera to use by its label. On a phone, the back camera is usually best for looking at things. Use 'switch_camera' to change cameras, 'stop_camera_view' when you no longer need to see, and 'take_snapshot' for a single sharp photo when you need to read or inspect a detail.`;
         baseSystemInstruction += cameraInstruction;
       }
 
-      const systemInstruction = baseSystemInstruction + ' When a user\'s request matches one of your available tools, you must use that tool.';
-
-      // 1. Add Webhook Tools
-      const functionDeclarations: FunctionDeclaration[] = settings.connections.map(conn => ({
-        name: conn.name,
-        description: conn.description,
-        parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING, description: `The user's complete and exact request.` } }, required: ['query'] },
-      }));
-
-      // 2. Add MCP Tools
-      if (settings.mcpServers) {
-        settings.mcpServers.forEach(server => {
-          // Check if tools exist and add them
-          if (server.tools && Array.isArray(server.tools)) {
-            functionDeclarations.push(...server.tools);
-          }
-        });
+      const canShareScreen = !!navigator.mediaDevices?.getDisplayMedia && getToolPolicy(settings.toolPolicies, 'start_screen_share') !== 'disabled';
+      if (canShareScreen) {
+        baseSystemInstruction += ` You have a tool called 'start_screen_share' to see the user's screen, a window or a browser tab. Call it when the user wants to show you something on their computer, such as a dashboard or code. The browser asks the user what to share. Only one of the camera and the screen is shared at a time.`;
       }
 
-      // 3. Add the built-in camera tool
-      functionDeclarations.push({
+      let systemInstruction = baseSystemInstruction + ' When a user\'s request matches one of your available tools, you must use that tool.';
+
+      // Built-in tools
+      const screenShareTool: FunctionDeclaration = {
+        name: 'start_screen_share',
+        description: "Asks the user to share their screen, a window or a browser tab, then streams it to you. Use it when they want to show you something on their computer.",
+      };
+      const builtinTools: FunctionDeclaration[] = [{
         name: 'start_camera_view',
         description: "Activates the user's camera when they ask you to look at, see, or watch something. Use the 'cameraLabel' parameter to specify which camera to activate from the provided list.",
         parameters: {
@@ -292,207 +746,605 @@ export const useGeminiLive = () => {
             }
           }
         }
-      });
-
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } } },
-          systemInstruction: systemInstruction,
-          tools: [{ functionDeclarations }],
-        },
-        callbacks: {
-          onopen: () => {
-            setConversationState(ConversationState.ACTIVE);
-            if (!mediaStreamRef.current || !inputAudioContextRef.current) return;
-            mediaStreamSourceRef.current = inputAudioContextRef.current.createMediaStreamSource(mediaStreamRef.current);
-            scriptProcessorRef.current = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromiseRef.current?.then((session) => { session.sendRealtimeInput({ media: pcmBlob }); });
-            };
-            mediaStreamSourceRef.current.connect(scriptProcessorRef.current);
-            scriptProcessorRef.current.connect(inputAudioContextRef.current.destination);
+      }, {
+        name: 'stop_camera_view',
+        description: "Turns the user's camera off. Use it when you no longer need to see, or the user asks you to stop looking.",
+      }, {
+        name: 'switch_camera',
+        description: "Switches the camera view to another camera, for example from the front to the back camera. Turns the camera on if it is off.",
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            cameraLabel: {
+              type: Type.STRING,
+              description: "The label of the camera to switch to, from the available list of cameras."
+            }
           },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                // A) Handle internal camera tool
-                if (fc.name === 'start_camera_view') {
-                  const requestedLabel = (fc.args as { cameraLabel?: string })?.cameraLabel;
-                  let selectedDevice: MediaDeviceInfo | undefined;
-
-                  if (requestedLabel) {
-                    // Find the camera that best matches the requested label
-                    selectedDevice = availableCameras.find(cam => cam.label.toLowerCase().includes(requestedLabel.toLowerCase()));
-                  }
-
-                  // Fallback logic if no specific camera was found or requested
-                  if (!selectedDevice && availableCameras.length > 0) {
-                    const isMobile = /Mobi|Android/i.test(navigator.userAgent);
-                    if (isMobile) {
-                      // On mobile, prefer the back camera ('environment')
-                      selectedDevice = availableCameras.find(cam => cam.label.toLowerCase().includes('back')) || availableCameras[0];
-                    } else {
-                      // On desktop, use the first available camera
-                      selectedDevice = availableCameras[0];
-                    }
-                  }
-
-                  if (selectedDevice) {
-                    setActiveCameraDeviceId(selectedDevice.deviceId);
-                    setIsCameraActive(true);
-                    sessionPromiseRef.current?.then((session) => {
-                      session.sendToolResponse({
-                        functionResponses: { id: fc.id, name: fc.name, response: { result: "Ok, the camera is now active. I can see what you're showing me." } },
-                      });
-                    });
-                  } else {
-                    sessionPromiseRef.current?.then((session) => {
-                      session.sendToolResponse({
-                        functionResponses: { id: fc.id, name: fc.name, response: { result: "Sorry, I couldn't find a suitable camera to activate." } },
-                      });
-                    });
-                  }
-                  continue;
-                }
-
-                // B) Handle MCP Tool Calls (Agent Zero)
-                let mcpServer: McpServer | undefined;
-                if (settings.mcpServers) {
-                  mcpServer = settings.mcpServers.find(s => s.tools.some(t => t.name === fc.name));
-                }
-
-                if (mcpServer) {
-                  (async () => {
-                    try {
-                      // Send JSON-RPC 2.0 Request to the MCP Post URL
-                      const rpcRequest = {
-                        jsonrpc: "2.0",
-                        method: "tools/call",
-                        id: Date.now(), // Request ID
-                        params: {
-                          name: fc.name,
-                          arguments: fc.args || {}
-                        }
-                      };
-
-                      const fetchOptions: RequestInit = {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify(rpcRequest)
-                      };
-
-                      if (mcpServer.useCredentials) {
-                        fetchOptions.credentials = 'include';
-                      }
-
-                      const response = await fetch(mcpServer.postUrl, fetchOptions);
-
-                      if (!response.ok) throw new Error(`MCP Call failed: ${response.statusText}`);
-
-                      const rpcResponse = await response.json();
-
-                      // The result is usually in rpcResponse.result.content
-                      // MCP defines content as a list of text/images.
-                      const result = rpcResponse.result?.content
-                        ? rpcResponse.result.content.map((c: any) => c.text || JSON.stringify(c)).join('\n')
-                        : JSON.stringify(rpcResponse.result || rpcResponse);
-
-                      sessionPromiseRef.current?.then((session) => {
-                        session.sendToolResponse({
-                          functionResponses: [{ id: fc.id, name: fc.name, response: { result: result } }],
-                        });
-                      });
-
-                    } catch (e) {
-                      console.error(`MCP execution failed for ${fc.name}:`, e);
-                      sessionPromiseRef.current?.then((session) => {
-                        session.sendToolResponse({
-                          functionResponses: { id: fc.id, name: fc.name, response: { result: `Error executing MCP tool: ${(e as Error).message}` } },
-                        });
-                      });
-                    }
-                  })();
-                  continue;
-                }
-
-                // C) Handle external tools (N8N Webhooks) non-blockingly
-                const connection = settings.connections.find(c => c.name === fc.name);
-                if (connection) {
-                  // Fire-and-forget the webhook call
-                  (async () => {
-                    try {
-                      const webhookResponse = await fetch(connection.url, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify(fc.args),
-                      });
-
-                      const responseText = await webhookResponse.text();
-                      sessionPromiseRef.current?.then((session) => {
-                        session.sendToolResponse({
-                          functionResponses: { id: fc.id, name: fc.name, response: { result: responseText } },
-                        });
-                      });
-                    } catch (e) {
-                      console.error(`Webhook call failed for ${fc.name}:`, e);
-                      sessionPromiseRef.current?.then((session) => {
-                        session.sendToolResponse({
-                          functionResponses: { id: fc.id, name: fc.name, response: { result: `Error calling tool: ${(e as Error).message}` } },
-                        });
-                      });
-                    }
-                  })();
-                }
-              }
+          required: ['cameraLabel']
+        }
+      }, {
+        name: 'take_snapshot',
+        description: "Takes one high-resolution photo and sends it to you as an image. Use it to read text or inspect details the live view is too blurry for. Uses the active camera unless 'cameraLabel' names another.",
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            cameraLabel: {
+              type: Type.STRING,
+              description: "The label of the camera to use, from the available list of cameras."
             }
+          }
+        }
+      }, ...(canShareScreen ? [screenShareTool] : [])];
+
+      // Webhook and MCP tools under their exposed (sanitised, prefixed) names, then the built-ins.
+      // Settings won't save colliding names, but older settings may still have them: the first
+      // tool keeps the name rather than sending Gemini duplicate declarations. Built again for
+      // every session, so one opened after an MCP server's tool list changed declares the new
+      // tools. Calls are dispatched with the registry of the session that declared them.
+      const buildTools = () => {
+        const readResourceTool = readResourceDeclaration([...liveMcpServers.values()]);
+        const builtins = readResourceTool ? [...builtinTools, readResourceTool] : builtinTools;
+        const { entries, collisions } = buildToolRegistry({ connections: settings.connections, mcpServers: [...liveMcpServers.values()] }, builtins);
+        collisions.forEach(c => console.warn(`[Live] Tool name '${c.name}' is claimed by ${c.sources.join(', ')}; only the first is declared.`));
+        const byName = new Map<string, ToolEntry>();
+        entries.forEach(entry => { if (!byName.has(entry.name)) byName.set(entry.name, entry); });
+        // Disabled tools are never declared, so the model doesn't know they exist.
+        const declarations = [...byName.values()]
+          .filter(entry => getToolPolicy(settings.toolPolicies, toolSettingsKey(entry)) !== 'disabled')
+          .map(entry => entry.declaration);
+        return { byName, declarations };
+      };
+      let { byName: toolsByName, declarations: functionDeclarations } = buildTools();
+      // Policies and timeouts are saved by settings key; tools are called by their exposed name.
+      const policyOf = (name: string) => {
+        const entry = toolsByName.get(name);
+        return getToolPolicy(settings.toolPolicies, entry ? toolSettingsKey(entry) : name);
+      };
+      if (functionDeclarations.some(fd => policyOf(fd.name || '') === 'ask')) {
+        systemInstruction += ' Some tools need the user\'s approval before they run: the user is shown a prompt and can answer yes or no out loud. If a tool result says the user denied it, do not call it again unless they ask.';
+      }
+
+      const timeoutMs = (name: string) => {
+        const entry = toolsByName.get(name);
+        return getToolTimeoutMs(settings.toolTimeouts, settings.defaultToolTimeoutSec, entry ? toolSettingsKey(entry) : name);
+      };
+
+      // Pinned MCP resources are read once and given to the model as reference material. One that
+      // can't be read is left out rather than holding up the conversation.
+      const pinnedDocuments = await Promise.all([...liveMcpServers.values()].flatMap(server => {
+        const client = mcpSessionsRef.current.get(server.id);
+        if (!client) return [];
+        return (server.pinnedResources || []).map(async uri => {
+          const resource = server.resources?.find(r => r.uri === uri) || { uri, name: uri };
+          try {
+            return { resource, text: resourceContentsToText(await client.readResource(uri, { timeoutMs: timeoutMs(READ_RESOURCE_TOOL) })) };
+          } catch (e) {
+            console.warn(`[MCP] Could not read pinned resource ${uri} from ${server.name}:`, e);
+            return null;
+          }
+        });
+      }));
+      if (wasStopped()) return;
+      const pinnedResources = pinnedDocuments.filter(d => d !== null);
+      if (pinnedResources.length > 0) {
+        systemInstruction += `\n\nReference material from the user's knowledge sources:\n\n${formatPinnedResources(pinnedResources)}`;
+      }
+
+      // --- Tool Execution ---
+
+      const resolveProvider = (name: string): ToolProvider | null => toolsByName.get(name)?.provider || null;
+
+      // A) Internal camera tools
+      const activateCamera = (args: Record<string, unknown>): string => {
+        const requestedLabel = (args as { cameraLabel?: string }).cameraLabel;
+        const cameras = availableCamerasRef.current;
+        // The camera that best matches the requested label, else the default for this device.
+        const selectedDevice = (requestedLabel && findCamera(cameras, requestedLabel)) || pickDefaultCamera(cameras);
+
+        if (!selectedDevice) return "Sorry, I couldn't find a suitable camera to activate.";
+        setActiveCameraDeviceId(selectedDevice.deviceId);
+        setIsCameraActive(true);
+        return `Ok, the camera '${selectedDevice.label}' is now active. I can see what you're showing me.`;
+      };
+
+      const stopCamera = (): string => {
+        const wasActive = !!videoStreamRef.current;
+        setIsCameraActive(false);
+        return wasActive ? 'Ok, the camera is now off.' : 'The camera was already off.';
+      };
+
+      const switchCamera = (args: Record<string, unknown>): string => {
+        const requestedLabel = String((args as { cameraLabel?: unknown }).cameraLabel || '');
+        const cameras = availableCamerasRef.current;
+        const selectedDevice = requestedLabel ? findCamera(cameras, requestedLabel) : undefined;
+        if (!selectedDevice) throw new Error(`No camera matches '${requestedLabel}'. The available cameras are: ${describeCameras(cameras)}.`);
+        setActiveCameraDeviceId(selectedDevice.deviceId);
+        setIsCameraActive(true);
+        return `Ok, switched to the camera '${selectedDevice.label}'.`;
+      };
+
+      // Uses the running camera when it is the one asked for; otherwise opens the camera just for
+      // this frame, at a higher resolution than the live view.
+      const takeSnapshot = async (args: Record<string, unknown>): Promise<ToolOutput> => {
+        const requestedLabel = (args as { cameraLabel?: string }).cameraLabel;
+        const cameras = availableCamerasRef.current;
+        const requested = requestedLabel ? findCamera(cameras, requestedLabel) : undefined;
+        if (requestedLabel && !requested) throw new Error(`No camera matches '${requestedLabel}'. The available cameras are: ${describeCameras(cameras)}.`);
+
+        const liveStream = videoStreamRef.current;
+        const liveDeviceId = liveStream?.getVideoTracks()[0]?.getSettings().deviceId;
+        if (liveStream && (!requested || requested.deviceId === liveDeviceId)) {
+          const label = cameras.find(cam => cam.deviceId === liveDeviceId)?.label || 'the active camera';
+          return { result: `Here is a snapshot from '${label}'. It has been sent to you as image input.`, images: [await captureFrame(liveStream)] };
+        }
+
+        const device = requested || pickDefaultCamera(cameras);
+        if (!device) throw new Error('No camera is available.');
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { deviceId: { exact: device.deviceId }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        });
+        try {
+          return { result: `Here is a snapshot from '${device.label}'. It has been sent to you as image input.`, images: [await captureFrame(stream)] };
+        } finally {
+          stream.getTracks().forEach(track => track.stop());
+        }
+      };
+
+      // Internal screen share tool. Without a recent click the browser refuses to open the picker,
+      // so the share button is highlighted and the model asks the user to press it.
+      const shareScreen = async (): Promise<string> => {
+        try {
+          await startScreenShare();
+          return "Ok, the user's screen is now being shared with you.";
+        } catch (e) {
+          const name = (e as DOMException)?.name;
+          if (name === 'NotAllowedError') return 'The user chose not to share their screen.';
+          if (name === 'InvalidStateError') {
+            setIsScreenShareRequested(true);
+            return 'The browser needs the user to start sharing themselves. Ask them to press the highlighted screen share button.';
+          }
+          throw e;
+        }
+      };
+
+      // Internal resource reader: finds the server that listed the URI and reads it.
+      const readResource = async (args: Record<string, unknown>, signal: AbortSignal): Promise<string> => {
+        const uri = String((args as { uri?: unknown }).uri || '');
+        const server = findResourceServer([...liveMcpServers.values()], uri);
+        if (!server) throw new Error(`Unknown resource '${uri}'. Use one of the URIs listed in the tool description.`);
+        const mcpClient = mcpSessionsRef.current.get(server.id);
+        if (!mcpClient) {
+          throw new Error(`MCP server ${server.name} is not connected: ${mcpConnectErrors.get(server.id) || 'unknown error'}`);
+        }
+        return resourceContentsToText(await mcpClient.readResource(uri, { signal }));
+      };
 
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
-              setIsGeminiSpeaking(true);
-              if (speakingTimeoutRef.current) clearTimeout(speakingTimeoutRef.current);
-              const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
-              const source = outputAudioContextRef.current.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputAudioContextRef.current.destination);
-              source.addEventListener('ended', () => {
-                audioSourcesRef.current.delete(source);
-                if (audioSourcesRef.current.size === 0) {
-                  speakingTimeoutRef.current = setTimeout(() => setIsGeminiSpeaking(false), 300);
-                }
-              });
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              audioSourcesRef.current.add(source);
+      // Runs a tool with its provider and returns the output for the model. Failures throw.
+      const executeTool = async (name: string, args: Record<string, unknown>, provider: ToolProvider, signal: AbortSignal): Promise<ToolOutput> => {
+        switch (provider.kind) {
+          case 'builtin':
+            switch (name) {
+              case READ_RESOURCE_TOOL: return { result: await readResource(args, signal) };
+              case 'start_screen_share': return { result: await shareScreen() };
+              case 'stop_camera_view': return { result: stopCamera() };
+              case 'switch_camera': return { result: switchCamera(args) };
+              case 'take_snapshot': return takeSnapshot(args);
+              default: return { result: activateCamera(args) };
             }
 
-            if (message.serverContent?.interrupted) {
-              for (const source of audioSourcesRef.current.values()) { source.stop(); }
-              audioSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsGeminiSpeaking(false);
+          // B) MCP Tool Calls (Agent Zero)
+          case 'mcp': {
+            const mcpClient = mcpSessionsRef.current.get(provider.serverId);
+            if (!mcpClient) {
+              throw new Error(`MCP server ${provider.serverName} is not connected: ${mcpConnectErrors.get(provider.serverId) || 'unknown error'}`);
+            }
+            // The server knows the tool by its own name, without our prefix.
+            const toolResult = await mcpClient.callTool(provider.toolName, args, { signal });
+            const { text, images, isError } = interpretMcpToolResult(toolResult);
+            // The tool ran but failed; its content explains why.
+            if (isError) throw new Error(text || 'The tool reported an error without details.');
+            return { result: text, images };
+          }
+
+          // C) External tools (N8N Webhooks)
+          case 'webhook': {
+            // By id: two connections can share a name, or sanitize to the same one.
+            const connection = settings.connections.find(c => c.id === provider.connectionId);
+            if (!connection) throw new Error(`Connection ${provider.connectionName} no longer exists.`);
+            const { result } = await callWebhook(connection, args, signal);
+            return { result };
+          }
+        }
+      };
+
+      // Sends a function response and records it in the transcript and the tool call log. Only
+      // the session that made the call can take the response: after a reconnect or stop it is dropped.
+      // Errors use the `error` key so the model can tell a failure from a result.
+      const respondToTool = (fc: FunctionCall, connectionId: number, result: unknown, outcome: { status: 'success' | 'error' | 'denied'; error?: string }, images: Blob[] = []) => {
+        const response: FunctionResponse = { id: fc.id, name: fc.name, response: outcome.status === 'error' ? { error: result } : { result } };
+        setTranscript(prev => setToolResult(prev, fc.id || '', result));
+        setToolCalls(prev => finishToolCall(prev, fc.id || '', { ...outcome, response, imageCount: images.length || undefined }));
+        dispatchActivity({ type: 'tool-end', id: fc.id || '' });
+        if (connectionId !== connectionIdRef.current || !isSessionOpenRef.current) {
+          console.warn(`[Live] Not sending the response for ${fc.name}: the session that called it has closed.`);
+          return;
+        }
+        sessionPromiseRef.current?.then((session) => {
+          // Images go first, so they are in context when the model reads the response that mentions them.
+          images.forEach(image => session.sendRealtimeInput({ media: image }));
+          session.sendToolResponse({ functionResponses: [response] });
+        });
+      };
+
+      // Records a call that was cancelled; the model gets no response for it.
+      const markToolCancelled = (fc: FunctionCall, message: string) => {
+        setTranscript(prev => setToolResult(prev, fc.id || '', `Cancelled: ${message}`));
+        setToolCalls(prev => finishToolCall(prev, fc.id || '', { status: 'cancelled', error: message }));
+        dispatchActivity({ type: 'tool-end', id: fc.id || '' });
+      };
+
+      // Holds a call until the user answers the prompt. Stopping the conversation denies it.
+      const requestConfirmation = (callId: string, name: string, args: Record<string, unknown>, provider: ToolProvider) =>
+        new Promise<boolean>(resolve => {
+          if (confirmationResolversRef.current.size === 0) {
+            confirmationSpeechRef.current = '';
+            confirmationShownAtRef.current = Date.now();
+          }
+          confirmationResolversRef.current.set(callId, resolve);
+          setPendingConfirmations(prev => [...prev, { callId, name, args, provider, requestedAt: Date.now() }]);
+        });
+      toolRunnerRef.current = {
+        resolveProvider, executeTool, timeoutMs, requestConfirmation,
+        policy: policyOf,
+      };
+
+      const handleToolCall = async (fc: FunctionCall, connectionId: number) => {
+        const id = fc.id || '';
+        const name = fc.name || '';
+        const args = fc.args || {};
+        const provider = resolveProvider(name);
+        const policy = policyOf(name);
+        setTranscript(prev => addToolCall(prev, { id, name, args }));
+        setToolCalls(prev => beginToolCall(prev, { id, name, args, provider }, provider && policy === 'ask' ? 'awaiting-approval' : 'running'));
+        dispatchActivity({ type: 'tool-start', id, name });
+
+        if (!provider) {
+          respondToTool(fc, connectionId, `Error: no tool named '${name}' is available.`, { status: 'error', error: 'Unknown tool' });
+          return;
+        }
+        if (policy === 'disabled') {
+          respondToTool(fc, connectionId, `The user has disabled the tool '${name}'. Tell them it is turned off in Settings.`, { status: 'denied', error: 'Disabled in settings' });
+          return;
+        }
+
+        // Aborted by toolCallCancellation, a reconnect, stopConversation, or the timeout below.
+        const controller = new AbortController();
+        toolAbortControllersRef.current.set(id, controller);
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+          if (policy === 'ask') {
+            const approved = await requestConfirmation(id, name, args, provider);
+            if (controller.signal.aborted) {
+              markToolCancelled(fc, (controller.signal.reason as Error).message);
+              return;
+            }
+            if (!approved) {
+              respondToTool(fc, connectionId, `The user denied this call to '${name}'. It was not run.`, { status: 'denied', error: 'Denied by the user' });
+              return;
             }
+            setToolCalls(prev => approveToolCall(prev, id));
+          }
+
+          // The timeout starts once the call actually runs, not while the user is deciding.
+          const ms = timeoutMs(name);
+          timer = setTimeout(() => controller.abort(new ToolCallAbortError(`Timed out after ${ms / 1000}s.`, 'timeout')), ms);
+          const { result, images } = await abortable(executeTool(name, args, provider, controller.signal), controller.signal);
+          respondToTool(fc, connectionId, result, { status: 'success' }, images);
+        } catch (e) {
+          const message = (e as Error).message;
+          if (e instanceof ToolCallAbortError && e.kind === 'cancelled') {
+            console.log(`[Live] Tool call ${name} (${id}) cancelled: ${message}`);
+            markToolCancelled(fc, message);
+            return;
+          }
+          console.error(`Tool call failed for ${name} (${describeProvider(provider)}):`, redactSecrets(message));
+          const prefix = provider.kind === 'mcp' ? 'Error executing MCP tool' : 'Error calling tool';
+          respondToTool(fc, connectionId, `${prefix}: ${message}`, { status: 'error', error: message });
+        } finally {
+          clearTimeout(timer);
+          endToolRun(id);
+        }
+      };
+
+      // Reconnects once the calls in flight have answered, so their responses reach the session
+      // that asked for them. After `maxWaitMs`, whatever still runs is abandoned.
+      const reconnectWhenToolsIdle = (maxWaitMs: number) => {
+        const connectionId = connectionIdRef.current;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<void>(resolve => { timer = setTimeout(resolve, maxWaitMs); });
+        Promise.race([whenToolsIdle(), deadline]).then(() => {
+          clearTimeout(timer);
+          // Already replaced (the other wait won, the connection dropped) or stopped.
+          if (connectionId === connectionIdRef.current && isSessionOpenRef.current) reconnect(true);
+        });
+      };
+
+      // Replaces the Gemini session while mic, camera and MCP sessions stay up. `goAway`
+      // reconnects right away; network drops back off exponentially.
+      const reconnect = (immediate: boolean) => {
+        connectionIdRef.current++;
+        isSessionOpenRef.current = false;
+        sessionPromiseRef.current?.then(session => session.close()).catch(() => { });
+        // Responses can't reach the old session, so calls still running are abandoned.
+        cancelToolCalls('The session closed before the call finished.');
+        setConversationState(ConversationState.RECONNECTING);
+        dispatchActivity({ type: 'reconnect' });
+        setTranscript(prev => completeTurn(prev));
+        // A push-to-talk turn can't carry over to the new session; the user presses again.
+        if (micModeRef.current === 'push-to-talk') setMicLive(false);
+
+        const attempt = reconnectAttemptsRef.current++;
+        const delay = immediate ? 0 : reconnectDelay(attempt);
+        console.log(`[Live] Reconnecting in ${delay}ms (attempt ${attempt + 1}, ${resumptionHandleRef.current ? 'resuming' : 'new session'}).`);
+        reconnectTimerRef.current = setTimeout(() => {
+          reconnectTimerRef.current = null;
+          connect();
+        }, delay);
+      };
+
+      const handleDisconnect = (reason: string, code?: number) => {
+        const canRetry = hasOpenedRef.current
+          && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS
+          && !(code !== undefined && FATAL_CLOSE_CODES.includes(code));
+        if (canRetry) {
+          reconnect(false);
+        } else {
+          failConversation(reason || 'The connection to Gemini was lost.');
+        }
+      };
+
+      const connect = () => {
+        const connectionId = ++connectionIdRef.current;
+        const isCurrent = () => connectionId === connectionIdRef.current;
+        const sessionTools = buildTools();
+
+        sessionPromiseRef.current = ai.live.connect({
+          model: speaks ? LIVE_AUDIO_MODEL : LIVE_TEXT_MODEL,
+          config: {
+            responseModalities: [speaks ? Modality.AUDIO : Modality.TEXT],
+            // Spoken replies are transcribed for the captions; written replies arrive as text parts.
+            ...(speaks ? {
+              speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } } },
+              outputAudioTranscription: {},
+            } : {}),
+            systemInstruction: systemInstruction,
+            tools: [{ functionDeclarations: sessionTools.declarations }],
+            inputAudioTranscription: {},
+            ...(micMode === 'push-to-talk' ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+            // Resume the previous session's context when we have a handle for it.
+            sessionResumption: { handle: resumptionHandleRef.current || undefined },
+            contextWindowCompression: { slidingWindow: {} },
           },
-          onerror: (e: ErrorEvent) => {
-            console.error('Gemini Live API Error:', e);
-            setErrorMessage(e.message || 'A connection error occurred.');
-            setConversationState(ConversationState.ERROR);
-            stopConversation();
+          callbacks: {
+            onopen: () => {
+              if (!isCurrent()) return;
+              isSessionOpenRef.current = true;
+              hasOpenedRef.current = true;
+              ({ byName: toolsByName, declarations: functionDeclarations } = sessionTools);
+              reconnectAttemptsRef.current = 0;
+              setConversationState(ConversationState.ACTIVE);
+              dispatchActivity({ type: 'open' });
+              // The capture pipeline outlives reconnects: create it only once.
+              if (!pcmCaptureRef.current) startMicCapture();
+            },
+            onmessage: (message: LiveServerMessage) => {
+              if (!isCurrent()) return;
+              handleMessage(message, connectionId);
+            },
+            onerror: (e: ErrorEvent) => {
+              if (!isCurrent()) return;
+              console.error('Gemini Live API Error:', redactSecrets(e.message));
+              handleDisconnect(e.message || 'A connection error occurred.');
+            },
+            onclose: (e: CloseEvent) => {
+              if (!isCurrent()) return;
+              console.warn(`Gemini Live connection closed (${e.code}${e.reason ? `: ${e.reason}` : ''}).`);
+              handleDisconnect(e.reason, e.code);
+            },
           },
-          onclose: (e: CloseEvent) => { stopConversation(); },
-        },
+        });
+        sessionPromiseRef.current.catch(() => { });
+      };
+
+      const handleMessage = async (message: LiveServerMessage, connectionId: number) => {
+        if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+          resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
+        }
+
+        if (message.goAway) {
+          const running = toolAbortControllersRef.current.size;
+          console.log(`[Live] Server is closing the connection (time left: ${message.goAway.timeLeft})${running ? `; reconnecting once ${running} running call(s) finish` : ''}.`);
+          reconnectWhenToolsIdle(Math.max(0, durationMs(message.goAway.timeLeft) - GO_AWAY_MARGIN_MS));
+          return;
+        }
+
+        if (message.toolCall) {
+          // Tools run concurrently; each one answers with its own sendToolResponse.
+          for (const fc of message.toolCall.functionCalls || []) {
+            handleToolCall(fc, connectionId);
+          }
+        }
+
+        if (message.toolCallCancellation) {
+          // The user moved on or interrupted: drop these calls without answering them.
+          for (const callId of message.toolCallCancellation.ids || []) {
+            toolAbortControllersRef.current.get(callId)?.abort(new ToolCallAbortError('Cancelled by the model.', 'cancelled'));
+            resolveConfirmation(callId, false);
+          }
+        }
+
+        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+        if (base64Audio && outputAudioContextRef.current) {
+          setIsGeminiSpeaking(true);
+          dispatchActivity({ type: 'model-output' });
+          if (speakingTimeoutRef.current) clearTimeout(speakingTimeoutRef.current);
+          const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
+          const source = outputAudioContextRef.current.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(outputAnalyserRef.current || outputAudioContextRef.current.destination);
+          source.addEventListener('ended', () => {
+            audioSourcesRef.current.delete(source);
+            if (audioSourcesRef.current.size === 0) {
+              speakingTimeoutRef.current = setTimeout(() => {
+                setIsGeminiSpeaking(false);
+                dispatchActivity({ type: 'model-done' });
+              }, 300);
+            }
+          });
+          source.start(nextStartTimeRef.current);
+          nextStartTimeRef.current += audioBuffer.duration;
+          audioSourcesRef.current.add(source);
+        }
+
+        const inputText = message.serverContent?.inputTranscription?.text;
+        if (inputText) {
+          setTranscript(prev => appendTranscription(prev, 'user', inputText));
+          // A spoken yes/no answers the oldest open prompt. Speech right after the prompt appears
+          // was most likely started before it.
+          const [waitingCallId] = confirmationResolversRef.current.keys();
+          if (waitingCallId && Date.now() - confirmationShownAtRef.current >= CONFIRMATION_LISTEN_DELAY_MS) {
+            confirmationSpeechRef.current += inputText;
+            const approved = parseSpokenConfirmation(confirmationSpeechRef.current);
+            if (approved !== null) resolveConfirmation(waitingCallId, approved);
+          }
+        }
+        if (!speaks) {
+          const replyText = (message.serverContent?.modelTurn?.parts || [])
+            .filter(part => part.text && !part.thought)
+            .map(part => part.text)
+            .join('');
+          if (replyText) {
+            setTranscript(prev => appendTranscription(prev, 'model', replyText));
+            dispatchActivity({ type: 'model-output' });
+          }
+          // A written reply is done when the turn is; a spoken one when playback drains.
+          if (message.serverContent?.turnComplete) dispatchActivity({ type: 'model-done' });
+        }
+        const outputText = message.serverContent?.outputTranscription?.text;
+        if (outputText) setTranscript(prev => appendTranscription(prev, 'model', outputText));
+        if (message.serverContent?.turnComplete) {
+          // Only a whole turn that is just a yes or no answers a prompt.
+          confirmationSpeechRef.current = '';
+          setTranscript(prev => completeTurn(prev));
+          dispatchActivity({ type: 'turn-complete' });
+        }
+
+        if (message.serverContent?.interrupted) {
+          setTranscript(prev => markInterrupted(prev));
+          for (const source of audioSourcesRef.current.values()) { source.stop(); }
+          audioSourcesRef.current.clear();
+          nextStartTimeRef.current = 0;
+          setIsGeminiSpeaking(false);
+          dispatchActivity({ type: 'model-done' });
+        }
+      };
+
+      // Gemini only learns about new tools at setup, so a changed tool or resource list means a new
+      // session (resumed, so the conversation carries on). Prompts only matter to Settings.
+      const handleListChanged = async (serverId: string, redeclare: boolean) => {
+        const client = mcpSessionsRef.current.get(serverId);
+        const server = liveMcpServers.get(serverId);
+        const init = mcpInitResults.get(serverId);
+        if (!client || !server || !init) return;
+        try {
+          updateMcpServer({ ...server, ...snapshotMcpServer(client, init, await listMcpCatalog(client, init)) });
+        } catch (e) {
+          console.warn(`[MCP] Could not re-list ${server.name}:`, e);
+          return;
+        }
+        // The next session declares the new tools; until it opens, calls use the current ones.
+        if (!redeclare || !isSessionOpenRef.current) return;
+        const running = toolAbortControllersRef.current.size;
+        console.log(`[MCP] Tools or resources changed on ${server.name}; reconnecting${running ? ` once ${running} running call(s) finish (at most ${LIST_CHANGED_MAX_WAIT_MS / 1000}s)` : ''}.`);
+        reconnectWhenToolsIdle(LIST_CHANGED_MAX_WAIT_MS);
+      };
+      mcpSessionsRef.current.forEach((client, serverId) => {
+        client.onNotification = (method) => {
+          if (method === 'notifications/tools/list_changed' || method === 'notifications/resources/list_changed') {
+            handleListChanged(serverId, true);
+          } else if (method === 'notifications/prompts/list_changed') {
+            handleListChanged(serverId, false);
+          }
+        };
       });
+
+      conversationMetaRef.current = {
+        id: Date.now().toString(),
+        startedAt: Date.now(),
+        settings: {
+          voice: settings.voice,
+          emotion: settings.emotion,
+          personality: settings.personality,
+          tools: functionDeclarations.map(fd => fd.name || ''),
+        },
+      };
+      connect();
     } catch (error: any) {
-      console.error('Failed to start conversation:', error);
-      setErrorMessage(error.message || 'Failed to initialize.');
-      setConversationState(ConversationState.ERROR);
-      await stopConversation();
+      // E.g. the worklet failing to load into a context the stop closed.
+      if (wasStopped()) return;
+      console.error('Failed to start conversation:', redactSecrets(String(error?.message || error)));
+      await failConversation(error.message || 'Failed to initialize.');
     }
-  }, [stopConversation, availableCameras, startCameraStream]);
+  }, [stopConversation, failConversation, resolveConfirmation, cancelToolCalls, startCameraStream, startScreenShare, setMicLive, startMicCapture, dispatchActivity, whenToolsIdle, endToolRun]);
 
-  return { conversationState, isGeminiSpeaking, isCameraActive, errorMessage, startConversation, stopConversation, toggleCamera, activeVideoStream };
+  // Runs a logged call again with the same arguments. The result only goes to the inspector:
+  // the model's original call id is already answered. The tool's current policy still applies.
+  const replayToolCall = useCallback(async (callId: string) => {
+    const runner = toolRunnerRef.current;
+    const original = toolCalls.find(r => r.id === callId);
+    if (!runner || !original) return;
+
+    const id = `${original.replayOf || original.id}-replay-${Date.now()}`;
+    const provider = runner.resolveProvider(original.name);
+    const policy = runner.policy(original.name);
+    setToolCalls(prev => beginToolCall(prev, { id, name: original.name, args: original.args, provider, replayOf: original.replayOf || original.id }, provider && policy === 'ask' ? 'awaiting-approval' : 'running'));
+    if (!provider) {
+      setToolCalls(prev => finishToolCall(prev, id, { status: 'error', error: 'Unknown tool' }));
+      return;
+    }
+    if (policy === 'disabled') {
+      setToolCalls(prev => finishToolCall(prev, id, { status: 'denied', error: 'Disabled in settings' }));
+      return;
+    }
+    const controller = new AbortController();
+    toolAbortControllersRef.current.set(id, controller);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      if (policy === 'ask') {
+        const approved = await runner.requestConfirmation(id, original.name, original.args, provider);
+        if (controller.signal.aborted) throw controller.signal.reason;
+        if (!approved) {
+          setToolCalls(prev => finishToolCall(prev, id, { status: 'denied', error: 'Denied by the user' }));
+          return;
+        }
+        setToolCalls(prev => approveToolCall(prev, id));
+      }
+      const ms = runner.timeoutMs(original.name);
+      timer = setTimeout(() => controller.abort(new ToolCallAbortError(`Timed out after ${ms / 1000}s.`, 'timeout')), ms);
+      const output: ToolOutput = await abortable(runner.executeTool(original.name, original.args, provider, controller.signal), controller.signal);
+      setToolCalls(prev => finishToolCall(prev, id, { status: 'success', response: { name: original.name, response: { result: output.result } }, imageCount: output.images?.length || undefined }));
+    } catch (e) {
+      const cancelled = e instanceof ToolCallAbortError && e.kind === 'cancelled';
+      setToolCalls(prev => finishToolCall(prev, id, { status: cancelled ? 'cancelled' : 'error', error: (e as Error).message }));
+    } finally {
+      clearTimeout(timer);
+      endToolRun(id);
+    }
+  }, [toolCalls, endToolRun]);
+
+  return {
+    conversationState, activity, isGeminiSpeaking, isCameraActive, errorMessage, transcript, toolCalls, replayToolCall, pendingConfirmations, resolveConfirmation,
+    startConversation, stopConversation, sendText, micMode, isMicLive, readAudioLevels, startTalking, stopTalking, toggleMute, toggleCamera, activeVideoStream, videoStats, isScreenSharing, isScreenShareRequested, screenStream, toggleScreenShare,
+  };
 };
\ No newline at end of file
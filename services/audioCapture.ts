@@ -0,0 +1,130 @@
+// --- Microphone Capture (AudioWorklet) ---
+// The worklet runs on the audio rendering thread: it downmixes to mono, resamples from the
+// context's real rate to 16 kHz, clamps, converts to Int16 PCM and posts fixed-size chunks.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const DEFAULT_CHUNK_MS = 40;
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    // Input samples per output sample (sampleRate is the context rate, a worklet global).
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunk = new Int16Array(chunkSamples);
+    this.chunkLength = 0;
+    this.acc = 0;
+    this.accCount = 0;
+    this.pos = 0;
+    this.prev = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') this.flush();
+    };
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.chunkLength === this.chunk.length) this.flush();
+  }
+
+  flush() {
+    if (this.chunkLength === 0) return;
+    const out = this.chunk.slice(0, this.chunkLength);
+    this.port.postMessage(out.buffer, [out.buffer]);
+    this.chunkLength = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const frames = channels[0].length;
+    for (let i = 0; i < frames; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+      sample /= channels.length;
+
+      if (this.ratio >= 1) {
+        // Downsampling: average the input samples that fall into each output sample.
+        this.acc += sample;
+        this.accCount++;
+        this.pos += 1;
+        if (this.pos >= this.ratio) {
+          this.push(this.acc / this.accCount);
+          this.acc = 0;
+          this.accCount = 0;
+          this.pos -= this.ratio;
+        }
+      } else {
+        // Upsampling: linear interpolation between consecutive input samples.
+        while (this.pos < 1) {
+          this.push(this.prev + (sample - this.prev) * this.pos);
+          this.pos += this.ratio;
+        }
+        this.pos -= 1;
+        this.prev = sample;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface PcmCaptureOptions {
+  chunkMs?: number;
+  targetSampleRate?: number;
+  onChunk: (pcm: ArrayBuffer) => void;
+}
+
+export interface PcmCapture {
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  /** Posts the partially filled chunk now instead of waiting for it to fill up. */
+  flush: () => void;
+  stop: () => void;
+}
+
+/** Registers the capture processor on `context`. Must resolve before `createPcmCapture`. */
+export const loadPcmCaptureWorklet = async (context: AudioContext): Promise<void> => {
+  if (!context.audioWorklet) {
+    throw new Error('AudioWorklet is not supported in this browser.');
+  }
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Starts streaming 16-bit mono PCM chunks from `stream` to `onChunk`. */
+export const createPcmCapture = (context: AudioContext, stream: MediaStream, options: PcmCaptureOptions): PcmCapture => {
+  const targetSampleRate = options.targetSampleRate ?? CAPTURE_SAMPLE_RATE;
+  const chunkSamples = Math.max(1, Math.round(targetSampleRate * (options.chunkMs ?? DEFAULT_CHUNK_MS) / 1000));
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCountMode: 'explicit',
+    channelCount: Math.min(2, stream.getAudioTracks()[0]?.getSettings().channelCount || 1),
+    processorOptions: { targetSampleRate, chunkSamples },
+  });
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => options.onChunk(event.data);
+  source.connect(node);
+
+  return {
+    source,
+    node,
+    flush: () => node.port.postMessage('flush'),
+    stop: () => {
+      source.disconnect();
+      node.port.onmessage = null;
+      node.port.close();
+    },
+  };
+};
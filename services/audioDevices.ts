@@ -0,0 +1,143 @@
+// --- Audio Devices ---
+// Which microphone and speaker a conversation uses. An empty device id means the system default.
+// Output routing needs AudioContext.setSinkId (Chrome and Edge 110+); other browsers always play
+// on the default device.
+
+export interface AudioDeviceSettings {
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_DEVICE_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// Speech RMS rarely goes above ~0.25, so levels are scaled up to fill a meter.
+const LEVEL_GAIN = 4;
+const TEST_TONE_HZ = 440;
+const TEST_TONE_SECONDS = 1;
+
+/** getUserMedia audio constraints. The device is `ideal`, so a missing one falls back to the default. */
+export const micConstraints = (settings: AudioDeviceSettings): MediaTrackConstraints => ({
+  ...(settings.inputDeviceId ? { deviceId: { ideal: settings.inputDeviceId } } : {}),
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+/** Microphones and speakers. Labels are empty until the page has microphone access. */
+export const listAudioDevices = async (): Promise<{ inputs: MediaDeviceInfo[]; outputs: MediaDeviceInfo[] }> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput' && device.deviceId),
+    outputs: devices.filter(device => device.kind === 'audiooutput' && device.deviceId),
+  };
+};
+
+/** `deviceId` if that device is plugged in, else '' (the default). */
+export const availableDeviceId = (deviceId: string, devices: MediaDeviceInfo[]): string =>
+  deviceId && devices.some(device => device.deviceId === deviceId) ? deviceId : '';
+
+/** The microphone a conversation should be using now: the chosen one if present, else the default. */
+export const pickInputDevice = (settings: AudioDeviceSettings, inputs: MediaDeviceInfo[]): MediaDeviceInfo | undefined =>
+  inputs.find(device => device.deviceId === availableDeviceId(settings.inputDeviceId, inputs))
+  // Chrome lists the default as a 'default' entry sharing its groupId with the real device.
+  || inputs.find(device => device.deviceId === 'default')
+  || inputs[0];
+
+export const canSelectOutput = (): boolean =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/** Plays `context` on the given speaker ('' for the default). Does nothing where that isn't supported. */
+export const routeOutput = async (context: AudioContext, deviceId: string): Promise<void> => {
+  if (!canSelectOutput()) return;
+  const routable = context as AudioContext & { sinkId?: string | object; setSinkId: (id: string) => Promise<void> };
+  if (routable.sinkId === deviceId) return;
+  await routable.setSinkId(deviceId);
+};
+
+/** Root mean square of the samples, scaled to 0-1 for a meter. */
+export const rmsLevel = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.min(1, Math.sqrt(sum / Math.max(1, samples.length)) * LEVEL_GAIN);
+};
+
+export interface LevelMeter {
+  level: () => number;
+  stop: () => void;
+}
+
+/** Measures `source` through an analyser, leaving its other connections alone. */
+export const createLevelMeter = (context: AudioContext, source: AudioNode): LevelMeter => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  return {
+    level: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return rmsLevel(samples);
+    },
+    stop: () => source.disconnect(analyser),
+  };
+};
+
+// Calls `onLevel` once per animation frame until the returned function is called.
+const pollLevel = (meter: LevelMeter, onLevel: (level: number) => void): (() => void) => {
+  let frame = requestAnimationFrame(function tick() {
+    onLevel(meter.level());
+    frame = requestAnimationFrame(tick);
+  });
+  return () => cancelAnimationFrame(frame);
+};
+
+/** Opens the microphone and reports its level until the returned function is called. */
+export const monitorMicrophone = async (settings: AudioDeviceSettings, onLevel: (level: number) => void): Promise<() => void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(settings) });
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const meter = createLevelMeter(context, context.createMediaStreamSource(stream));
+  const stopPolling = pollLevel(meter, onLevel);
+  return () => {
+    stopPolling();
+    meter.stop();
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+    onLevel(0);
+  };
+};
+
+/** Plays a short tone on the given speaker, reporting its level while it plays. */
+export const playTestTone = async (deviceId: string, onLevel: (level: number) => void): Promise<void> => {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    await routeOutput(context, deviceId);
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = TEST_TONE_HZ;
+    // Fade in and out so the tone doesn't click.
+    gain.gain.setValueAtTime(0, context.currentTime);
+    gain.gain.linearRampToValueAtTime(0.3, context.currentTime + 0.05);
+    gain.gain.linearRampToValueAtTime(0, context.currentTime + TEST_TONE_SECONDS);
+    oscillator.connect(gain).connect(context.destination);
+    const meter = createLevelMeter(context, gain);
+    const stopPolling = pollLevel(meter, onLevel);
+    await new Promise<void>(resolve => {
+      oscillator.onended = () => resolve();
+      oscillator.start();
+      oscillator.stop(context.currentTime + TEST_TONE_SECONDS);
+    });
+    stopPolling();
+    meter.stop();
+  } finally {
+    onLevel(0);
+    context.close();
+  }
+};
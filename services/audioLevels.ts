@@ -0,0 +1,67 @@
+import { rmsLevel } from './audioDevices';
+
+// --- Audio Levels ---
+// Live level and spectrum of the mic and of Gemini's voice, for the visualizer. Analysers are
+// read once per animation frame, so reading reuses its buffers instead of allocating.
+
+export const LEVEL_BANDS = 8;
+
+export interface AudioLevel {
+  level: number; // RMS, scaled to 0-1
+  bands: number[]; // LEVEL_BANDS values, 0-1, low to high frequencies
+}
+
+export interface AudioLevels {
+  input: AudioLevel; // Silent while the mic is muted or closed
+  output: AudioLevel;
+}
+
+export const SILENT_LEVEL: AudioLevel = { level: 0, bands: new Array(LEVEL_BANDS).fill(0) };
+export const SILENT_LEVELS: AudioLevels = { input: SILENT_LEVEL, output: SILENT_LEVEL };
+
+// How fast a smoothed level follows the signal: quick to rise, slower to fall, so the sphere
+// jumps with a syllable and settles instead of flickering.
+const ATTACK_MS = 40;
+const RELEASE_MS = 250;
+
+/** An analyser for visuals. It passes audio through, so it can sit inline before the destination. */
+export const createVisualAnalyser = (context: AudioContext): AnalyserNode => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.5;
+  return analyser;
+};
+
+/** Averages an FFT magnitude array into `count` log-spaced bands, so speech isn't squeezed into the first one. */
+export const spectrumBands = (frequencies: Uint8Array, count = LEVEL_BANDS): number[] => {
+  const bands: number[] = [];
+  let start = 1; // Skip the DC bin
+  for (let i = 1; i <= count; i++) {
+    const end = Math.max(start + 1, Math.round(frequencies.length ** (i / count)));
+    let sum = 0;
+    for (let bin = start; bin < end && bin < frequencies.length; bin++) sum += frequencies[bin];
+    bands.push(sum / Math.max(1, end - start) / 255);
+    start = end;
+  }
+  return bands;
+};
+
+/** Moves `previous` towards `next` over `dtMs`, rising at the attack rate and falling at the release rate. */
+export const smoothLevel = (previous: number, next: number, dtMs: number): number => {
+  const timeConstant = next > previous ? ATTACK_MS : RELEASE_MS;
+  return previous + (next - previous) * (1 - Math.exp(-dtMs / timeConstant));
+};
+
+const buffers = new WeakMap<AnalyserNode, { samples: Float32Array; frequencies: Uint8Array }>();
+
+export const readAnalyser = (analyser: AnalyserNode | null): AudioLevel => {
+  if (!analyser) return SILENT_LEVEL;
+  let buffer = buffers.get(analyser);
+  if (!buffer) {
+    buffer = { samples: new Float32Array(analyser.fftSize), frequencies: new Uint8Array(analyser.frequencyBinCount) };
+    buffers.set(analyser, buffer);
+  }
+  analyser.getFloatTimeDomainData(buffer.samples);
+  analyser.getByteFrequencyData(buffer.frequencies);
+  return { level: rmsLevel(buffer.samples), bands: spectrumBands(buffer.frequencies) };
+};
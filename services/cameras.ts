@@ -0,0 +1,22 @@
+// --- Cameras ---
+// Picking a camera for the model's camera tools. The model names cameras by (part of) their
+// label, as listed in the system instruction and in the tools' results.
+
+/** The camera whose label contains `label`, ignoring case. */
+export const findCamera = (cameras: MediaDeviceInfo[], label: string): MediaDeviceInfo | undefined =>
+  cameras.find(cam => cam.label.toLowerCase().includes(label.toLowerCase()));
+
+/** The camera to use when none was named: the back camera on a phone, else the first. */
+export const pickDefaultCamera = (cameras: MediaDeviceInfo[]): MediaDeviceInfo | undefined => {
+  const isMobile = /Mobi|Android/i.test(navigator.userAgent);
+  if (isMobile) return findCamera(cameras, 'back') || cameras[0];
+  return cameras[0];
+};
+
+/** The camera list as the model sees it. */
+export const describeCameras = (cameras: MediaDeviceInfo[]): string =>
+  cameras.length > 0 ? cameras.map(cam => `'${cam.label}'`).join(', ') : 'none';
+
+/** Whether two enumerations list the same cameras, in any order. */
+export const sameCameras = (a: MediaDeviceInfo[], b: MediaDeviceInfo[]): boolean =>
+  a.length === b.length && a.every(cam => b.some(other => other.deviceId === cam.deviceId && other.label === cam.label));
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConversationActivity, ConversationEvent, IDLE_ACTIVITY, INITIAL_VOICE_ACTIVITY, VAD_END_LEVEL, VAD_START_LEVEL,
+  VoiceActivityState, detectVoiceActivity, transitionActivity,
+} from './conversationActivity';
+
+const run = (events: ConversationEvent[], from: ConversationActivity = IDLE_ACTIVITY) => events.reduce(transitionActivity, from);
+const listening: ConversationActivity = { phase: 'listening', runningTools: [] };
+
+describe('transitionActivity', () => {
+  it('goes from idle through connecting to listening', () => {
+    const connecting = transitionActivity(IDLE_ACTIVITY, { type: 'connect' });
+    expect(connecting).toEqual({ phase: 'connecting', runningTools: [] });
+    expect(transitionActivity(connecting, { type: 'open' })).toEqual(listening);
+    expect(transitionActivity(listening, { type: 'stop' })).toEqual(IDLE_ACTIVITY);
+  });
+
+  it('ignores conversation events before the session is open', () => {
+    const connecting = run([{ type: 'connect' }]);
+    expect(transitionActivity(connecting, { type: 'user-speech-start' })).toBe(connecting);
+    expect(transitionActivity(IDLE_ACTIVITY, { type: 'model-output' })).toBe(IDLE_ACTIVITY);
+  });
+
+  it('follows a spoken turn from the user to the model and back', () => {
+    expect(run([{ type: 'user-speech-start' }], listening).phase).toBe('user-speaking');
+    expect(run([{ type: 'user-speech-start' }, { type: 'user-speech-end' }], listening).phase).toBe('waiting');
+    expect(run([{ type: 'user-speech-start' }, { type: 'user-speech-end' }, { type: 'model-output' }], listening).phase).toBe('model-speaking');
+    expect(run([{ type: 'user-speech-start' }, { type: 'user-speech-end' }, { type: 'model-output' }, { type: 'model-done' }], listening).phase).toBe('listening');
+  });
+
+  it('lets the user barge in, and keeps the user speaking over model output', () => {
+    const speaking = run([{ type: 'model-output' }], listening);
+    expect(speaking.phase).toBe('model-speaking');
+    const barged = transitionActivity(speaking, { type: 'user-speech-start' });
+    expect(barged.phase).toBe('user-speaking');
+    expect(transitionActivity(barged, { type: 'model-output' }).phase).toBe('user-speaking');
+    // A typed message while the model talks doesn't stop it.
+    expect(transitionActivity(speaking, { type: 'user-text' }).phase).toBe('model-speaking');
+  });
+
+  it('settles a turn that got no reply', () => {
+    const waiting = run([{ type: 'user-text' }], listening);
+    expect(waiting.phase).toBe('waiting');
+    expect(transitionActivity(waiting, { type: 'wait-timeout' }).phase).toBe('listening');
+    expect(transitionActivity(waiting, { type: 'turn-complete' }).phase).toBe('listening');
+    expect(transitionActivity(listening, { type: 'wait-timeout' })).toBe(listening);
+  });
+
+  it('tracks overlapping tool calls, oldest first', () => {
+    const both = run([{ type: 'tool-start', id: 'a', name: 'search' }, { type: 'tool-start', id: 'b', name: 'fetch' }], listening);
+    expect(both).toEqual({ phase: 'running-tool', runningTools: [{ id: 'a', name: 'search' }, { id: 'b', name: 'fetch' }] });
+
+    const oneLeft = transitionActivity(both, { type: 'tool-end', id: 'a' });
+    expect(oneLeft).toEqual({ phase: 'running-tool', runningTools: [{ id: 'b', name: 'fetch' }] });
+    expect(transitionActivity(oneLeft, { type: 'tool-end', id: 'unknown' })).toBe(oneLeft);
+    // The model answers once it has the last result.
+    expect(transitionActivity(oneLeft, { type: 'tool-end', id: 'b' })).toEqual({ phase: 'waiting', runningTools: [] });
+  });
+
+  it('returns to running-tool when the model stops talking while tools run', () => {
+    const activity = run([{ type: 'tool-start', id: 'a', name: 'search' }, { type: 'model-output' }], listening);
+    expect(activity.phase).toBe('model-speaking');
+    expect(transitionActivity(activity, { type: 'tool-end', id: 'a' })).toEqual({ phase: 'model-speaking', runningTools: [] });
+    expect(transitionActivity(activity, { type: 'model-done' }).phase).toBe('running-tool');
+  });
+
+  it('drops running tools on reconnect and comes back listening', () => {
+    const reconnecting = run([{ type: 'tool-start', id: 'a', name: 'search' }, { type: 'reconnect' }], listening);
+    expect(reconnecting).toEqual({ phase: 'reconnecting', runningTools: [] });
+    expect(transitionActivity(reconnecting, { type: 'user-speech-start' })).toBe(reconnecting);
+    expect(transitionActivity(reconnecting, { type: 'open' })).toEqual(listening);
+  });
+
+  it('keeps the error until the next start or stop', () => {
+    const failed = run([{ type: 'tool-start', id: 'a', name: 'search' }, { type: 'fail', message: 'Lost connection' }], listening);
+    expect(failed).toEqual({ phase: 'error', runningTools: [], errorMessage: 'Lost connection' });
+    expect(transitionActivity(failed, { type: 'model-output' })).toBe(failed);
+    expect(transitionActivity(failed, { type: 'open' })).toBe(failed);
+    expect(transitionActivity(failed, { type: 'connect' })).toEqual({ phase: 'connecting', runningTools: [] });
+  });
+});
+
+describe('detectVoiceActivity', () => {
+  const feed = (levels: [number, number][], from: VoiceActivityState = INITIAL_VOICE_ACTIVITY) =>
+    levels.reduce((state, [level, now]) => detectVoiceActivity(state, level, now), from);
+  const loud = VAD_START_LEVEL + 0.05;
+  const between = (VAD_START_LEVEL + VAD_END_LEVEL) / 2;
+  const quiet = VAD_END_LEVEL / 2;
+
+  it('starts only after the level has stayed above the start level for a moment', () => {
+    expect(feed([[loud, 0], [loud, 50]]).speaking).toBe(false);
+    expect(feed([[loud, 0], [loud, 80]]).speaking).toBe(true);
+    // A dip resets the wait: a click is not speech.
+    expect(feed([[loud, 0], [quiet, 40], [loud, 60], [loud, 100]]).speaking).toBe(false);
+  });
+
+  it('does not start on levels between the two thresholds', () => {
+    expect(feed([[between, 0], [between, 1000]]).speaking).toBe(false);
+  });
+
+  it('keeps speaking through short pauses and levels above the end level', () => {
+    const speaking = feed([[loud, 0], [loud, 100]]);
+    expect(feed([[between, 200], [between, 2000]], speaking).speaking).toBe(true);
+    expect(feed([[quiet, 200], [quiet, 600], [loud, 700], [quiet, 800], [quiet, 1400]], speaking).speaking).toBe(true);
+  });
+
+  it('ends after a long enough stretch below the end level', () => {
+    const speaking = feed([[loud, 0], [loud, 100]]);
+    expect(feed([[quiet, 200], [quiet, 899]], speaking).speaking).toBe(true);
+    expect(feed([[quiet, 200], [quiet, 900]], speaking)).toEqual(INITIAL_VOICE_ACTIVITY);
+  });
+});
@@ -0,0 +1,135 @@
+// --- Conversation Activity ---
+// What the conversation is doing right now, for the status line and the visualizer. The hook
+// feeds events from the session, the speaker and a local voice activity detector into
+// `transitionActivity`; everything here is pure so it can be exercised without audio.
+
+export type ConversationPhase =
+  | 'idle'
+  | 'connecting'
+  | 'listening'
+  | 'user-speaking'
+  | 'waiting' // The user has finished; the model hasn't answered yet
+  | 'model-speaking'
+  | 'running-tool'
+  | 'reconnecting'
+  | 'error';
+
+export interface RunningTool {
+  id: string;
+  name: string;
+}
+
+export interface ConversationActivity {
+  phase: ConversationPhase;
+  runningTools: RunningTool[]; // Calls in progress, oldest first
+  errorMessage?: string;
+}
+
+export type ConversationEvent =
+  | { type: 'connect' }
+  | { type: 'open' }
+  | { type: 'reconnect' }
+  | { type: 'fail'; message: string }
+  | { type: 'stop' }
+  | { type: 'user-speech-start' }
+  | { type: 'user-speech-end' }
+  | { type: 'user-text' }
+  | { type: 'model-output' } // Audio or text from the model
+  | { type: 'model-done' } // Playback drained, interrupted, or a text reply completed
+  | { type: 'turn-complete' }
+  | { type: 'wait-timeout' }
+  | { type: 'tool-start'; id: string; name: string }
+  | { type: 'tool-end'; id: string };
+
+export const IDLE_ACTIVITY: ConversationActivity = { phase: 'idle', runningTools: [] };
+
+// Phases in which the session is up and turns are being taken.
+const IN_CONVERSATION: ConversationPhase[] = ['listening', 'user-speaking', 'waiting', 'model-speaking', 'running-tool'];
+
+export const isInConversation = (phase: ConversationPhase): boolean => IN_CONVERSATION.includes(phase);
+
+// Where a turn settles once nobody is speaking: tools still running, or back to listening.
+const settled = (runningTools: RunningTool[]): ConversationPhase => (runningTools.length > 0 ? 'running-tool' : 'listening');
+
+/** The activity after `event`. Events that don't apply in the current phase leave it unchanged. */
+export const transitionActivity = (activity: ConversationActivity, event: ConversationEvent): ConversationActivity => {
+  const { phase, runningTools } = activity;
+  switch (event.type) {
+    case 'connect':
+      return { phase: 'connecting', runningTools: [] };
+    case 'open':
+      return phase === 'connecting' || phase === 'reconnecting' ? { phase: 'listening', runningTools: [] } : activity;
+    case 'reconnect':
+      // Calls in flight are abandoned with the old session.
+      return { phase: 'reconnecting', runningTools: [] };
+    case 'fail':
+      return { phase: 'error', runningTools: [], errorMessage: event.message };
+    case 'stop':
+      return IDLE_ACTIVITY;
+  }
+
+  if (!isInConversation(phase)) return activity;
+  switch (event.type) {
+    case 'user-speech-start':
+      // Includes barging in while the model talks.
+      return { ...activity, phase: 'user-speaking' };
+    case 'user-speech-end':
+      return phase === 'user-speaking' ? { ...activity, phase: 'waiting' } : activity;
+    case 'user-text':
+      return phase === 'model-speaking' ? activity : { ...activity, phase: 'waiting' };
+    case 'model-output':
+      return phase === 'user-speaking' ? activity : { ...activity, phase: 'model-speaking' };
+    case 'model-done':
+      return phase === 'model-speaking' ? { ...activity, phase: settled(runningTools) } : activity;
+    case 'turn-complete':
+    case 'wait-timeout':
+      // A turn that ended without a reply (or a false alarm from the voice detector).
+      return phase === 'waiting' ? { ...activity, phase: settled(runningTools) } : activity;
+    case 'tool-start': {
+      const tools = [...runningTools.filter(t => t.id !== event.id), { id: event.id, name: event.name }];
+      return { ...activity, runningTools: tools, phase: phase === 'listening' || phase === 'waiting' ? 'running-tool' : phase };
+    }
+    case 'tool-end': {
+      const tools = runningTools.filter(t => t.id !== event.id);
+      if (tools.length === runningTools.length) return activity;
+      // The model answers once it has the result.
+      return { ...activity, runningTools: tools, phase: phase === 'running-tool' && tools.length === 0 ? 'waiting' : phase };
+    }
+    default:
+      return activity;
+  }
+};
+
+// --- Local Voice Activity Detection ---
+// A level gate with hysteresis: speech starts once the level has been above the start threshold
+// for a moment, and ends after a stretch below the (lower) end threshold, so pauses between
+// words don't end the turn.
+
+export interface VoiceActivityState {
+  speaking: boolean;
+  aboveSince: number | null;
+  belowSince: number | null;
+}
+
+export const VAD_START_LEVEL = 0.12;
+export const VAD_END_LEVEL = 0.06;
+const VAD_START_MS = 80;
+const VAD_END_MS = 700;
+
+export const INITIAL_VOICE_ACTIVITY: VoiceActivityState = { speaking: false, aboveSince: null, belowSince: null };
+
+/** The detector's state after a mic level (0-1) read at time `now` (ms). */
+export const detectVoiceActivity = (state: VoiceActivityState, level: number, now: number): VoiceActivityState => {
+  if (!state.speaking) {
+    if (level < VAD_START_LEVEL) return state.aboveSince === null ? state : { ...state, aboveSince: null };
+    const aboveSince = state.aboveSince ?? now;
+    return now - aboveSince >= VAD_START_MS
+      ? { speaking: true, aboveSince: null, belowSince: null }
+      : { ...state, aboveSince };
+  }
+  if (level >= VAD_END_LEVEL) return state.belowSince === null ? state : { ...state, belowSince: null };
+  const belowSince = state.belowSince ?? now;
+  return now - belowSince >= VAD_END_MS
+    ? { speaking: false, aboveSince: null, belowSince: null }
+    : { ...state, belowSince };
+};
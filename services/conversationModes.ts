@@ -0,0 +1,27 @@
+// --- Conversation Modes ---
+// How the model answers. Native audio models can only speak, so written-only replies use a
+// model that answers in text; "both" speaks and shows the transcription of what was said.
+
+export type ReplyMode = 'voice' | 'text' | 'voice-and-text';
+
+export const REPLY_MODE_LABELS: Record<ReplyMode, string> = {
+  voice: 'Spoken',
+  text: 'Written',
+  'voice-and-text': 'Spoken and written',
+};
+
+export const LIVE_AUDIO_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const LIVE_TEXT_MODEL = 'gemini-live-2.5-flash-preview';
+
+// How the microphone reaches the model: always on, only while a key or button is held, or on
+// until muted. Push-to-talk marks turns itself, so the server's voice activity detection is off.
+export type MicMode = 'open' | 'push-to-talk' | 'toggle';
+
+export const MIC_MODE_LABELS: Record<MicMode, string> = {
+  open: 'Open mic',
+  'push-to-talk': 'Push to talk (hold Space)',
+  toggle: 'Toggle mute (press M)',
+};
+
+/** Whether replies should be shown as text under the visualizer, whatever the captions setting. */
+export const showsReplyText = (mode: ReplyMode | undefined): boolean => mode === 'text' || mode === 'voice-and-text';
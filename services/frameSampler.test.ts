@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FrameSamplerStats, frameBandwidth, frameDifference, scaledSize } from './frameSampler';
+
+// RGBA pixels, all set to one color.
+const pixels = (count: number, [r, g, b]: [number, number, number]) => {
+  const data = new Uint8ClampedArray(count * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([r, g, b, 255], i);
+  return data;
+};
+
+describe('scaledSize', () => {
+  it('fits the long side to the maximum, keeping the aspect ratio', () => {
+    expect(scaledSize(1920, 1080, 768)).toEqual({ width: 768, height: 432 });
+    expect(scaledSize(1080, 1920, 768)).toEqual({ width: 432, height: 768 });
+    expect(scaledSize(1000, 1000, 768)).toEqual({ width: 768, height: 768 });
+  });
+
+  it('never scales up', () => {
+    expect(scaledSize(640, 480, 768)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('keeps very thin frames at least one pixel wide', () => {
+    expect(scaledSize(4000, 2, 768)).toEqual({ width: 768, height: 1 });
+  });
+});
+
+describe('frameDifference', () => {
+  it('is zero for identical frames', () => {
+    expect(frameDifference(pixels(16, [10, 200, 30]), pixels(16, [10, 200, 30]))).toBe(0);
+  });
+
+  it('is the mean luma difference, weighted like the eye', () => {
+    expect(frameDifference(pixels(4, [0, 0, 0]), pixels(4, [255, 255, 255]))).toBeCloseTo(255);
+    expect(frameDifference(pixels(4, [0, 0, 0]), pixels(4, [0, 10, 0]))).toBeCloseTo(5.87);
+    expect(frameDifference(pixels(4, [0, 0, 0]), pixels(4, [0, 0, 10]))).toBeCloseTo(1.14);
+  });
+
+  it('ignores alpha and averages over every pixel', () => {
+    const a = pixels(4, [100, 100, 100]);
+    const b = pixels(4, [100, 100, 100]);
+    b.set([200, 200, 200, 0], 0); // One pixel of four changed, by 100
+    expect(frameDifference(a, b)).toBeCloseTo(25);
+  });
+});
+
+describe('frameBandwidth', () => {
+  const stats: FrameSamplerStats = { framesSent: 10, framesSkipped: 2, bytesSent: 50000, startedAt: 1000, width: 768, height: 432 };
+
+  it('averages the bytes sent over the time since the start', () => {
+    expect(frameBandwidth(stats, 11000)).toBe(5000);
+  });
+
+  it('counts at least one second, so the first frame does not spike', () => {
+    expect(frameBandwidth(stats, 1100)).toBe(50000);
+  });
+});
@@ -0,0 +1,220 @@
+import { Blob } from '@google/genai';
+
+// --- Video Frame Sampler ---
+// Turns a camera or screen stream into JPEG frames for sendRealtimeInput: at most `fps` frames a
+// second, scaled so the long side is at most `maxDimension`, and skipping frames that barely
+// differ from the last one sent. Frames come from ImageCapture where the browser has it, else
+// from a hidden <video> drawn to a canvas. One canvas is reused for every frame.
+
+export interface FrameSamplerSettings {
+  maxDimension: number; // Long side in pixels
+  fps: number;
+  quality: number; // JPEG quality, 0-1
+  skipUnchanged: boolean;
+}
+
+// Gemini works on roughly 768px frames at 1 FPS; more only costs bandwidth.
+export const DEFAULT_FRAME_SAMPLER_SETTINGS: FrameSamplerSettings = {
+  maxDimension: 768,
+  fps: 1,
+  quality: 0.6,
+  skipUnchanged: true,
+};
+
+export interface FrameSamplerStats {
+  framesSent: number;
+  framesSkipped: number; // Nearly identical to the previous frame sent
+  bytesSent: number; // Base64 payload, as it goes over the socket
+  startedAt: number;
+  width: number; // Of the last frame sent
+  height: number;
+}
+
+export interface FrameSamplerOptions extends Partial<FrameSamplerSettings> {
+  onFrame: (frame: Blob) => void;
+  onStats?: (stats: FrameSamplerStats) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface FrameSampler {
+  stats: () => FrameSamplerStats;
+  stop: () => void;
+}
+
+// Change detection compares small grayscale thumbnails: cheap, and blind to sensor noise.
+const THUMBNAIL_SIZE = 32;
+// Mean absolute luma difference (0-255) below which a frame counts as unchanged.
+const CHANGE_THRESHOLD = 4;
+
+/** The size of a `width` x `height` frame scaled down so its long side fits `maxDimension`. */
+export const scaledSize = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** Mean absolute luma difference between two RGBA pixel arrays of the same size. */
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const lumaA = 0.299 * a[i] + 0.587 * a[i + 1] + 0.114 * a[i + 2];
+    const lumaB = 0.299 * b[i] + 0.587 * b[i + 1] + 0.114 * b[i + 2];
+    total += Math.abs(lumaA - lumaB);
+  }
+  return total / (a.length / 4);
+};
+
+/** Bytes per second sent since the sampler started. */
+export const frameBandwidth = (stats: FrameSamplerStats, now = Date.now()): number =>
+  stats.bytesSent / Math.max(1, (now - stats.startedAt) / 1000);
+
+interface GrabbedFrame {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  release?: () => void;
+}
+
+interface FrameSource {
+  grab: () => Promise<GrabbedFrame | null>; // null until the stream has a frame
+  close: () => void;
+}
+
+const createFrameSource = (stream: MediaStream): FrameSource => {
+  const track = stream.getVideoTracks()[0];
+  if (!track) throw new Error('The stream has no video track.');
+
+  if ('ImageCapture' in window) {
+    // @ts-ignore
+    const imageCapture = new ImageCapture(track);
+    return {
+      grab: async () => {
+        const bitmap: ImageBitmap = await imageCapture.grabFrame();
+        return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+      },
+      close: () => { },
+    };
+  }
+
+  // Fallback for browsers without ImageCapture (Firefox, Safari).
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  video.play().catch(e => console.warn('[Video] Frame sampler video did not start:', e));
+  return {
+    grab: async () => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+      return { image: video, width: video.videoWidth, height: video.videoHeight };
+    },
+    close: () => {
+      video.pause();
+      video.srcObject = null;
+    },
+  };
+};
+
+// A snapshot is one frame the model is asked to look at closely, so it is larger and sharper.
+export const SNAPSHOT_SETTINGS = { maxDimension: 1536, quality: 0.85 };
+// How long `captureFrame` waits for a stream that was just opened to produce a frame.
+const FIRST_FRAME_TIMEOUT_MS = 3000;
+const FIRST_FRAME_POLL_MS = 100;
+
+const encodeFrame = (canvas: HTMLCanvasElement, frame: GrabbedFrame, maxDimension: number, quality: number): Blob => {
+  const size = scaledSize(frame.width, frame.height, maxDimension);
+  // Resizing reallocates the canvas, so only do it when the source size changes.
+  if (canvas.width !== size.width || canvas.height !== size.height) {
+    canvas.width = size.width;
+    canvas.height = size.height;
+  }
+  canvas.getContext('2d')?.drawImage(frame.image, 0, 0, size.width, size.height);
+  return { data: canvas.toDataURL('image/jpeg', quality).split(',')[1], mimeType: 'image/jpeg' };
+};
+
+/** Grabs a single JPEG frame from `stream`, waiting briefly for a stream that has just started. */
+export const captureFrame = async (stream: MediaStream, { maxDimension, quality } = SNAPSHOT_SETTINGS): Promise<Blob> => {
+  const source = createFrameSource(stream);
+  const deadline = Date.now() + FIRST_FRAME_TIMEOUT_MS;
+  try {
+    for (;;) {
+      const frame = await source.grab();
+      if (frame) {
+        try {
+          return encodeFrame(document.createElement('canvas'), frame, maxDimension, quality);
+        } finally {
+          frame.release?.();
+        }
+      }
+      if (Date.now() > deadline) throw new Error('The camera did not produce a frame in time.');
+      await new Promise(resolve => setTimeout(resolve, FIRST_FRAME_POLL_MS));
+    }
+  } finally {
+    source.close();
+  }
+};
+
+/** Starts sampling frames from `stream`. The stream's tracks are left to the caller to stop. */
+export const createFrameSampler = (stream: MediaStream, options: FrameSamplerOptions): FrameSampler => {
+  const { maxDimension, fps, quality, skipUnchanged } = { ...DEFAULT_FRAME_SAMPLER_SETTINGS, ...options };
+  const source = createFrameSource(stream);
+  const canvas = document.createElement('canvas');
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = THUMBNAIL_SIZE;
+  thumbnail.height = THUMBNAIL_SIZE;
+  const thumbnailCtx = thumbnail.getContext('2d', { willReadFrequently: true });
+
+  const stats: FrameSamplerStats = { framesSent: 0, framesSkipped: 0, bytesSent: 0, startedAt: Date.now(), width: 0, height: 0 };
+  let lastThumbnail: Uint8ClampedArray | null = null;
+  let isGrabbing = false;
+  let stopped = false;
+
+  // Reports whether this frame differs enough from the last one sent.
+  const hasChanged = (frame: GrabbedFrame): boolean => {
+    if (!skipUnchanged || !thumbnailCtx) return true;
+    thumbnailCtx.drawImage(frame.image, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    const pixels = thumbnailCtx.getImageData(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE).data;
+    if (lastThumbnail && frameDifference(pixels, lastThumbnail) < CHANGE_THRESHOLD) return false;
+    // Only sent frames become the reference, so a slow drift is still sent eventually.
+    lastThumbnail = pixels;
+    return true;
+  };
+
+  const tick = async () => {
+    // A slow grab or encode skips ticks rather than queueing them.
+    if (isGrabbing || stopped) return;
+    isGrabbing = true;
+    let frame: GrabbedFrame | null = null;
+    try {
+      frame = await source.grab();
+      if (!frame || stopped) return;
+      if (!hasChanged(frame)) {
+        stats.framesSkipped++;
+        options.onStats?.({ ...stats });
+        return;
+      }
+      const encoded = encodeFrame(canvas, frame, maxDimension, quality);
+      options.onFrame(encoded);
+      stats.framesSent++;
+      stats.bytesSent += encoded.data?.length || 0;
+      stats.width = canvas.width;
+      stats.height = canvas.height;
+      options.onStats?.({ ...stats });
+    } catch (e) {
+      stop();
+      options.onError(e);
+    } finally {
+      frame?.release?.();
+      isGrabbing = false;
+    }
+  };
+
+  const interval = setInterval(tick, 1000 / Math.max(0.1, fps));
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    source.close();
+  };
+
+  return { stats: () => ({ ...stats }), stop };
+};
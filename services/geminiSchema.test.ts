@@ -0,0 +1,182 @@
+import { Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { convertJsonSchemaToGemini, convertMcpToolToGemini } from './geminiSchema';
+
+describe('convertJsonSchemaToGemini', () => {
+  it('converts nested objects with their required lists', () => {
+    const { schema, warnings } = convertJsonSchemaToGemini({
+      type: 'object',
+      properties: {
+        user: {
+          type: 'object',
+          description: 'Who to greet',
+          properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } },
+          required: ['name'],
+        },
+      },
+      required: ['user'],
+    });
+    expect(schema).toEqual({
+      type: Type.OBJECT,
+      properties: {
+        user: {
+          type: Type.OBJECT,
+          description: 'Who to greet',
+          properties: { name: { type: Type.STRING }, age: { type: Type.INTEGER, minimum: 0 } },
+          required: ['name'],
+        },
+      },
+      required: ['user'],
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('converts arrays of objects', () => {
+    const { schema } = convertJsonSchemaToGemini({
+      type: 'array',
+      minItems: 1,
+      items: { type: 'object', properties: { id: { type: 'string' } } },
+    });
+    expect(schema).toEqual({
+      type: Type.ARRAY,
+      minItems: '1',
+      items: { type: Type.OBJECT, properties: { id: { type: Type.STRING } } },
+    });
+  });
+
+  it('keeps string enums and moves other enums into the description', () => {
+    expect(convertJsonSchemaToGemini({ type: 'string', enum: ['a', 'b'] }).schema)
+      .toEqual({ type: Type.STRING, enum: ['a', 'b'], format: 'enum' });
+
+    const { schema, warnings } = convertJsonSchemaToGemini({ type: 'integer', enum: [1, 2] }, '$.level');
+    expect(schema).toEqual({ type: Type.INTEGER, description: 'allowed values: 1, 2' });
+    expect(warnings).toEqual(['$.level: non-string enum values were moved into the description']);
+  });
+
+  it('treats a null enum value as nullable', () => {
+    expect(convertJsonSchemaToGemini({ type: 'string', enum: ['on', 'off', null] }).schema)
+      .toEqual({ type: Type.STRING, enum: ['on', 'off'], format: 'enum', nullable: true });
+  });
+
+  it('handles nullable, type arrays with null, and anyOf with null', () => {
+    expect(convertJsonSchemaToGemini({ type: 'string', nullable: true }).schema).toEqual({ type: Type.STRING, nullable: true });
+    expect(convertJsonSchemaToGemini({ type: ['number', 'null'] }).schema).toEqual({ type: Type.NUMBER, nullable: true });
+    expect(convertJsonSchemaToGemini({ anyOf: [{ type: 'string', description: 'A date' }, { type: 'null' }] }).schema)
+      .toEqual({ type: Type.STRING, description: 'A date', nullable: true });
+  });
+
+  it('keeps a real union as anyOf', () => {
+    const { schema } = convertJsonSchemaToGemini({ anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }], description: 'Id' });
+    expect(schema).toEqual({ anyOf: [{ type: Type.STRING }, { type: Type.NUMBER }], description: 'Id', nullable: true });
+  });
+
+  it('resolves $ref against $defs and definitions, with sibling keywords winning', () => {
+    const { schema, warnings } = convertJsonSchemaToGemini({
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/address', description: 'Home address' },
+        tag: { $ref: '#/definitions/tag' },
+      },
+      $defs: { address: { type: 'object', description: 'An address', properties: { city: { type: 'string' } } } },
+      definitions: { tag: { type: 'string' } },
+    });
+    expect(schema.properties).toEqual({
+      home: { type: Type.OBJECT, description: 'Home address', properties: { city: { type: Type.STRING } } },
+      tag: { type: Type.STRING },
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('warns about a $ref it cannot resolve', () => {
+    const { schema, warnings } = convertJsonSchemaToGemini({ $ref: '#/$defs/missing', description: 'Gone' }, '$.x');
+    expect(schema).toEqual({ type: Type.STRING, description: 'Gone' });
+    expect(warnings).toEqual(["$.x: could not resolve $ref '#/$defs/missing'"]);
+  });
+
+  it('merges allOf object members, including referenced ones', () => {
+    const { schema, warnings } = convertJsonSchemaToGemini({
+      allOf: [
+        { $ref: '#/$defs/base' },
+        { type: 'object', properties: { extra: { type: 'boolean' } }, required: ['extra'] },
+      ],
+      description: 'Merged',
+      $defs: { base: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] } },
+    });
+    expect(schema).toEqual({
+      type: Type.OBJECT,
+      description: 'Merged',
+      properties: { id: { type: Type.STRING }, extra: { type: Type.BOOLEAN } },
+      required: ['id', 'extra'],
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('keeps only the first member of a non-object allOf', () => {
+    const { schema, warnings } = convertJsonSchemaToGemini({ allOf: [{ type: 'string', minLength: 2 }, { maxLength: 5 }] });
+    expect(schema).toEqual({ type: Type.STRING, minLength: '2' });
+    expect(warnings).toEqual(["$: 'allOf' of non-object schemas is not supported, only the first member was kept"]);
+  });
+
+  it('keeps supported formats and describes the rest', () => {
+    expect(convertJsonSchemaToGemini({ type: 'string', format: 'date-time' }).schema).toEqual({ type: Type.STRING, format: 'date-time' });
+    expect(convertJsonSchemaToGemini({ type: 'number', format: 'double' }).schema).toEqual({ type: Type.NUMBER, format: 'double' });
+    expect(convertJsonSchemaToGemini({ type: 'string', format: 'email', description: 'Contact' }).schema)
+      .toEqual({ type: Type.STRING, description: 'Contact (format: email)' });
+    expect(convertJsonSchemaToGemini({ type: 'integer', format: 'uint8' }).schema).toEqual({ type: Type.INTEGER, description: 'format: uint8' });
+  });
+
+  it('truncates schemas nested deeper than MAX_DEPTH to free text', () => {
+    let deep: any = { type: 'string' };
+    for (let i = 0; i < 12; i++) deep = { type: 'object', properties: { next: deep } };
+    const { schema, warnings } = convertJsonSchemaToGemini(deep);
+
+    let node: any = schema;
+    let depth = 0;
+    while (node.properties?.next) {
+      node = node.properties.next;
+      depth++;
+    }
+    expect(depth).toBe(11);
+    expect(node).toEqual({ type: Type.STRING, description: 'JSON-encoded value' });
+    expect(warnings).toEqual([`$${'.next'.repeat(11)}: nested deeper than 10 levels, accepted as free text`]);
+  });
+
+  it('returns a warning with the JSON path for everything it drops', () => {
+    const { warnings } = convertJsonSchemaToGemini({
+      type: 'object',
+      properties: {
+        any: {},
+        pair: { type: 'array', items: [{ type: 'string' }, { type: 'number' }] },
+        map: { type: 'object', additionalProperties: { type: 'string' } },
+        odd: { type: 'string', not: { const: 'x' } },
+      },
+      required: ['any', 'ghost'],
+    }, 'search');
+    expect(warnings).toEqual([
+      'search.any: no type given, accepted as free text',
+      "search.pair: tuple 'items' is not supported, the first item schema was used",
+      "search.map: 'additionalProperties' schemas are not supported, extra keys cannot be described",
+      "search.odd: 'not' is not supported and was ignored",
+      "search: 'required' lists properties that are not defined, they were dropped",
+    ]);
+  });
+});
+
+describe('convertMcpToolToGemini', () => {
+  it('declares tools without arguments without parameters', () => {
+    expect(convertMcpToolToGemini({ name: 'ping', description: 'Ping', inputSchema: { type: 'object', properties: {} } }))
+      .toEqual({ declaration: { name: 'ping', description: 'Ping' }, warnings: [] });
+  });
+
+  it('prefixes warnings with the tool name', () => {
+    const { declaration, warnings } = convertMcpToolToGemini({
+      name: 'lookup',
+      inputSchema: { properties: { when: { type: 'string', format: 'date' }, extra: true } },
+    });
+    expect(declaration.parameters).toEqual({
+      type: Type.OBJECT,
+      properties: { when: { type: Type.STRING, description: 'format: date' }, extra: { type: Type.STRING } },
+    });
+    expect(warnings).toEqual(['lookup.extra: schema allows any value, accepted as free text']);
+  });
+});
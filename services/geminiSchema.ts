@@ -0,0 +1,267 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { McpTool } from './mcpClient';
+
+// --- JSON Schema -> Gemini Schema ---
+// MCP tools describe their arguments with JSON Schema, while Gemini function declarations accept
+// an OpenAPI-style subset of it. This converts what Gemini can express and collects a warning
+// (with the JSON path) for everything it has to drop or approximate.
+
+export interface SchemaConversion {
+  schema: Schema;
+  warnings: string[];
+}
+
+export interface ToolConversion {
+  declaration: FunctionDeclaration;
+  warnings: string[];
+}
+
+const MAX_DEPTH = 10;
+
+const TYPE_MAP: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+// Formats Gemini accepts, per type. Anything else is moved into the description.
+const SUPPORTED_FORMATS: Partial<Record<Type, string[]>> = {
+  [Type.STRING]: ['enum', 'date-time'],
+  [Type.NUMBER]: ['float', 'double'],
+  [Type.INTEGER]: ['int32', 'int64'],
+};
+
+// JSON Schema keywords with no Gemini equivalent that change what a value may be.
+const UNSUPPORTED_KEYWORDS = ['not', 'if', 'then', 'else', 'patternProperties', 'dependentSchemas', 'dependencies', 'prefixItems', 'contains'];
+
+interface ConversionContext {
+  root: any;
+  warnings: string[];
+}
+
+const appendDescription = (schema: Schema, note: string) => {
+  schema.description = schema.description ? `${schema.description} (${note})` : note;
+};
+
+const resolveRef = (ref: string, ctx: ConversionContext, path: string): any => {
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  const target = match ? ctx.root?.[match[1]]?.[match[2]] : undefined;
+  if (!target) ctx.warnings.push(`${path}: could not resolve $ref '${ref}'`);
+  return target;
+};
+
+// Infers a type for schemas that leave it implicit.
+const inferType = (node: any): string | undefined => {
+  if (node.properties) return 'object';
+  if (node.items) return 'array';
+  if (Array.isArray(node.enum) || node.const !== undefined) return 'string';
+  return undefined;
+};
+
+const convertNode = (input: any, path: string, ctx: ConversionContext, depth: number): Schema => {
+  if (depth > MAX_DEPTH) {
+    ctx.warnings.push(`${path}: nested deeper than ${MAX_DEPTH} levels, accepted as free text`);
+    return { type: Type.STRING, description: 'JSON-encoded value' };
+  }
+  if (input === true || input === undefined || input === null || typeof input !== 'object') {
+    ctx.warnings.push(`${path}: schema allows any value, accepted as free text`);
+    return { type: Type.STRING };
+  }
+
+  let node = input;
+  if (typeof node.$ref === 'string') {
+    const target = resolveRef(node.$ref, ctx, path);
+    if (!target) return { type: Type.STRING, description: node.description };
+    // Sibling keywords (e.g. description) override the referenced definition.
+    const { $ref, ...siblings } = node;
+    node = { ...target, ...siblings };
+  }
+
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (node[keyword] !== undefined) ctx.warnings.push(`${path}: '${keyword}' is not supported and was ignored`);
+  }
+
+  // --- Unions: anyOf / oneOf, and type arrays like ["string", "null"] ---
+  const union: any[] | undefined = node.anyOf || node.oneOf;
+  if (Array.isArray(union)) {
+    const { anyOf, oneOf, ...rest } = node;
+    const isNull = (s: any) => s?.type === 'null';
+    const nonNull = union.filter(s => !isNull(s));
+    const nullable = nonNull.length < union.length || node.nullable === true;
+    if (nonNull.length === 0) return convertNode({ ...rest, type: 'null' }, path, ctx, depth + 1);
+    if (nonNull.length === 1) {
+      const merged = convertNode({ ...rest, ...nonNull[0], description: rest.description ?? nonNull[0]?.description }, path, ctx, depth + 1);
+      if (nullable) merged.nullable = true;
+      return merged;
+    }
+    const schema: Schema = {
+      anyOf: nonNull.map((s, i) => convertNode(s, `${path}.anyOf[${i}]`, ctx, depth + 1)),
+    };
+    if (rest.description) schema.description = rest.description;
+    if (rest.title) schema.title = rest.title;
+    if (nullable) schema.nullable = true;
+    return schema;
+  }
+
+  if (Array.isArray(node.type)) {
+    const types: string[] = node.type.filter((t: string) => t !== 'null');
+    const nullable = types.length < node.type.length;
+    const schema: Schema = types.length === 1
+      ? convertNode({ ...node, type: types[0] }, path, ctx, depth + 1)
+      : {
+        anyOf: types.map((t, i) => convertNode({ ...node, type: t }, `${path}.anyOf[${i}]`, ctx, depth + 1)),
+        ...(node.description ? { description: node.description } : {}),
+      };
+    if (nullable) schema.nullable = true;
+    return schema;
+  }
+
+  // --- allOf: merge object members, otherwise keep the first member ---
+  if (Array.isArray(node.allOf)) {
+    const { allOf, ...rest } = node;
+    const members: any[] = allOf.map((s: any) => (s?.$ref ? resolveRef(s.$ref, ctx, path) : s)).filter(Boolean);
+    if (members.every(m => (m.type || inferType(m)) === 'object')) {
+      const merged = {
+        type: 'object',
+        ...rest,
+        properties: Object.assign({}, ...members.map(m => m.properties || {}), rest.properties || {}),
+        required: [...new Set([...members.flatMap(m => m.required || []), ...(rest.required || [])])],
+      };
+      return convertNode(merged, path, ctx, depth + 1);
+    }
+    ctx.warnings.push(`${path}: 'allOf' of non-object schemas is not supported, only the first member was kept`);
+    return convertNode({ ...members[0], ...rest }, path, ctx, depth + 1);
+  }
+
+  // --- Single type ---
+  let jsonType: string | undefined = node.type || inferType(node);
+  if (jsonType === 'null') {
+    ctx.warnings.push(`${path}: type 'null' on its own is not supported, accepted as nullable free text`);
+    return { type: Type.STRING, nullable: true, ...(node.description ? { description: node.description } : {}) };
+  }
+  let type = jsonType ? TYPE_MAP[jsonType] : undefined;
+  if (!type) {
+    ctx.warnings.push(jsonType
+      ? `${path}: unknown type '${jsonType}', accepted as free text`
+      : `${path}: no type given, accepted as free text`);
+    type = Type.STRING;
+  }
+
+  const schema: Schema = { type };
+  if (node.title) schema.title = node.title;
+  if (node.description) schema.description = node.description;
+  if (node.nullable === true) schema.nullable = true;
+  if (node.default !== undefined) schema.default = node.default;
+  if (node.example !== undefined) schema.example = node.example;
+  else if (Array.isArray(node.examples) && node.examples.length > 0) schema.example = node.examples[0];
+
+  if (node.format) {
+    if (SUPPORTED_FORMATS[type]?.includes(node.format)) schema.format = node.format;
+    else appendDescription(schema, `format: ${node.format}`);
+  }
+
+  // --- enum / const: Gemini only supports string enums ---
+  const enumValues: unknown[] | undefined = Array.isArray(node.enum) ? node.enum : node.const !== undefined ? [node.const] : undefined;
+  if (enumValues) {
+    const values = enumValues.filter(v => v !== null);
+    if (values.length < enumValues.length) schema.nullable = true;
+    if (type === Type.STRING && values.every(v => typeof v === 'string')) {
+      schema.enum = values as string[];
+      schema.format = 'enum';
+    } else {
+      appendDescription(schema, `allowed values: ${values.map(v => JSON.stringify(v)).join(', ')}`);
+      ctx.warnings.push(`${path}: non-string enum values were moved into the description`);
+    }
+  }
+
+  switch (type) {
+    case Type.STRING:
+      if (node.minLength !== undefined) schema.minLength = String(node.minLength);
+      if (node.maxLength !== undefined) schema.maxLength = String(node.maxLength);
+      if (node.pattern) schema.pattern = node.pattern;
+      break;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (node.minimum !== undefined) schema.minimum = node.minimum;
+      if (node.maximum !== undefined) schema.maximum = node.maximum;
+      if (node.exclusiveMinimum !== undefined || node.exclusiveMaximum !== undefined) {
+        const bounds = [
+          typeof node.exclusiveMinimum === 'number' ? `> ${node.exclusiveMinimum}` : '',
+          typeof node.exclusiveMaximum === 'number' ? `< ${node.exclusiveMaximum}` : '',
+        ].filter(Boolean).join(' and ');
+        if (bounds) appendDescription(schema, `must be ${bounds}`);
+      }
+      break;
+    case Type.ARRAY:
+      if (node.minItems !== undefined) schema.minItems = String(node.minItems);
+      if (node.maxItems !== undefined) schema.maxItems = String(node.maxItems);
+      if (Array.isArray(node.items)) {
+        ctx.warnings.push(`${path}: tuple 'items' is not supported, the first item schema was used`);
+        schema.items = convertNode(node.items[0], `${path}[]`, ctx, depth + 1);
+      } else if (node.items && typeof node.items === 'object') {
+        schema.items = convertNode(node.items, `${path}[]`, ctx, depth + 1);
+      } else {
+        ctx.warnings.push(`${path}: array without 'items', items accepted as free text`);
+        schema.items = { type: Type.STRING };
+      }
+      break;
+    case Type.OBJECT:
+      convertObjectMembers(node, schema, path, ctx, depth);
+      break;
+  }
+
+  return schema;
+};
+
+const convertObjectMembers = (node: any, schema: Schema, path: string, ctx: ConversionContext, depth: number) => {
+  const properties: Record<string, any> = node.properties || {};
+  const names = Object.keys(properties);
+  if (names.length > 0) {
+    schema.properties = {};
+    for (const name of names) {
+      schema.properties[name] = convertNode(properties[name], `${path}.${name}`, ctx, depth + 1);
+    }
+  }
+  if (Array.isArray(node.required)) {
+    const required = node.required.filter((name: string) => names.includes(name));
+    if (required.length < node.required.length) {
+      ctx.warnings.push(`${path}: 'required' lists properties that are not defined, they were dropped`);
+    }
+    if (required.length > 0) schema.required = required;
+  }
+  if (node.minProperties !== undefined) schema.minProperties = String(node.minProperties);
+  if (node.maxProperties !== undefined) schema.maxProperties = String(node.maxProperties);
+  if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+    ctx.warnings.push(`${path}: 'additionalProperties' schemas are not supported, extra keys cannot be described`);
+  }
+};
+
+/** Converts a JSON Schema to the Gemini `Schema` subset, collecting warnings for what was lost. */
+export const convertJsonSchemaToGemini = (jsonSchema: any, rootPath = '$'): SchemaConversion => {
+  const ctx: ConversionContext = { root: jsonSchema, warnings: [] };
+  const schema = convertNode(jsonSchema, rootPath, ctx, 0);
+  return { schema, warnings: ctx.warnings };
+};
+
+/** Converts an MCP `tools/list` entry to a Gemini function declaration. */
+export const convertMcpToolToGemini = (mcpTool: McpTool): ToolConversion => {
+  const declaration: FunctionDeclaration = {
+    name: mcpTool.name,
+    description: mcpTool.description || '',
+  };
+  const inputSchema = mcpTool.inputSchema;
+  // Tools without arguments are declared without parameters: Gemini rejects empty OBJECT schemas.
+  if (!inputSchema || !inputSchema.properties || Object.keys(inputSchema.properties).length === 0) {
+    return { declaration, warnings: [] };
+  }
+
+  const { schema, warnings } = convertJsonSchemaToGemini({ type: 'object', ...inputSchema }, mcpTool.name);
+  if (schema.type !== Type.OBJECT) {
+    return { declaration, warnings: [...warnings, `${mcpTool.name}: input schema is not an object, parameters were dropped`] };
+  }
+  declaration.parameters = schema;
+  return { declaration, warnings };
+};
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppSettings } from '../components/SettingsPanel';
+import { conversationToJson, conversationToMarkdown } from './historyExport';
+import { ConversationRecord } from './historyStore';
+import { setKnownSecrets } from './secretVault';
+
+// A secret JSON has to escape: it would survive redaction done on the formatted text.
+const SECRET = 'tok"en\\with\nescapes';
+
+const record: ConversationRecord = {
+  id: '1',
+  startedAt: 0,
+  endedAt: 5000,
+  durationMs: 5000,
+  settings: { voice: 'Zephyr', emotion: false, personality: '', tools: ['lookup'] },
+  transcript: [{
+    id: 't1',
+    role: 'tool',
+    text: '',
+    timestamp: 1000,
+    final: true,
+    toolCall: { id: 'c1', name: 'lookup', args: { auth: SECRET }, result: { echoed: `Bearer ${SECRET}` } },
+  }],
+};
+
+describe('conversation export', () => {
+  afterEach(() => setKnownSecrets({ apiKey: '', connections: [] } as unknown as AppSettings));
+
+  it('redacts secrets that JSON would escape', () => {
+    setKnownSecrets({ apiKey: SECRET, connections: [] } as unknown as AppSettings);
+    const json = conversationToJson(record);
+    expect(json).not.toContain('tok');
+    expect(JSON.parse(json).transcript[0].toolCall).toMatchObject({ args: { auth: '[redacted]' }, result: { echoed: 'Bearer [redacted]' } });
+
+    const markdown = conversationToMarkdown(record);
+    expect(markdown).not.toContain('tok');
+    expect(markdown).toContain('"auth": "[redacted]"');
+  });
+});
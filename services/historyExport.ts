@@ -0,0 +1,69 @@
+import { ConversationRecord } from './historyStore';
+import { redactSecrets } from './secretVault';
+
+// --- Conversation Export ---
+// Exports pass through redactSecrets: tool arguments and results can echo an API key or token.
+// The record is redacted before it is formatted, since JSON escaping (of a quote or backslash in
+// a secret) would keep the formatted text from matching.
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+export const conversationToJson = (record: ConversationRecord): string =>
+  JSON.stringify(redactSecrets(record), null, 2);
+
+export const conversationToMarkdown = (original: ConversationRecord): string => {
+  const record = redactSecrets(original);
+  const lines: string[] = [
+    `# Conversation — ${new Date(record.startedAt).toLocaleString()}`,
+    '',
+    `- **Duration:** ${formatDuration(record.durationMs)}`,
+    `- **Voice:** ${record.settings.voice}${record.settings.emotion ? ' (emotional tone)' : ''}`,
+    `- **Tools:** ${record.settings.tools.length > 0 ? record.settings.tools.map(t => `\`${t}\``).join(', ') : 'none'}`,
+  ];
+  if (record.settings.personality) {
+    lines.push('', '## Personality', '', record.settings.personality);
+  }
+  lines.push('', '## Transcript', '');
+
+  for (const entry of record.transcript) {
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+    if (entry.role === 'tool' && entry.toolCall) {
+      lines.push(
+        `**Tool call** \`${entry.toolCall.name}\` _(${time})_`,
+        '',
+        '```json',
+        JSON.stringify(entry.toolCall.args, null, 2),
+        '```',
+      );
+      if (entry.toolCall.result !== undefined) {
+        lines.push('', 'Result:', '', '```', formatValue(entry.toolCall.result), '```');
+      }
+      lines.push('');
+      continue;
+    }
+    const speaker = entry.role === 'user' ? 'You' : 'Gemini';
+    lines.push(`**${speaker}** _(${time})_: ${entry.text.trim()}${entry.interrupted ? ' _(interrupted)_' : ''}`, '');
+  }
+  return lines.join('\n');
+};
+
+/** Triggers a browser download of `content`. */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFilename = (record: ConversationRecord, extension: 'md' | 'json') =>
+  `conversation-${new Date(record.startedAt).toISOString().replace(/[:.]/g, '-')}.${extension}`;
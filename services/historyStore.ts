@@ -0,0 +1,75 @@
+import { TranscriptEntry } from './transcript';
+
+// --- Conversation History (IndexedDB) ---
+// Each finished conversation is stored locally with its transcript, tool calls and a snapshot of
+// the settings it ran with. Secrets (the API key, server URLs) are never part of the snapshot.
+
+export interface ConversationSettingsSnapshot {
+  voice: string;
+  emotion: boolean;
+  personality: string;
+  tools: string[]; // Names of the webhook, MCP and built-in tools that were declared
+}
+
+export interface ConversationRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  settings: ConversationSettingsSnapshot;
+  transcript: TranscriptEntry[];
+}
+
+const DB_NAME = 'gemini-live-history';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveConversation = (record: ConversationRecord) =>
+  run('readwrite', store => store.put(record)).then(() => undefined);
+
+/** All stored conversations, newest first. */
+export const listConversations = async (): Promise<ConversationRecord[]> => {
+  const records = await run<ConversationRecord[]>('readonly', store => store.index('startedAt').getAll());
+  return records.reverse();
+};
+
+export const deleteConversation = (id: string) =>
+  run('readwrite', store => store.delete(id)).then(() => undefined);
+
+/** Case-insensitive match against the transcript text and tool names. */
+export const matchesSearch = (record: ConversationRecord, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return record.transcript.some(entry =>
+    entry.text.toLowerCase().includes(q) ||
+    (entry.toolCall && JSON.stringify(entry.toolCall.args).toLowerCase().includes(q)));
+};
@@ -0,0 +1,323 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { McpClient, McpError, SUPPORTED_PROTOCOL_VERSIONS, readEventStream } from './mcpClient';
+
+// --- Fake MCP server ---
+// A real HTTP server in the test process. It speaks the legacy SSE transport on /sse + /messages
+// and Streamable HTTP on /mcp. Handlers answer by method; a handler returning undefined leaves
+// the request unanswered, so a test can reply later (or never) with `send`.
+
+type Handler = (message: any) => { result?: unknown; error?: unknown } | undefined;
+
+interface FakeServer {
+  url: string;
+  posts: { path: string; headers: IncomingMessage['headers']; body: any }[];
+  deletes: IncomingMessage['headers'][];
+  handlers: Record<string, Handler>;
+  /** Writes a message to the SSE stream (legacy transport) or the Streamable HTTP GET stream. */
+  send: (message: object) => void;
+  streamOpened: Promise<void>;
+  close: () => Promise<void>;
+}
+
+interface FakeServerOptions {
+  getStream?: boolean; // Whether /mcp offers the optional GET stream (else 405)
+  legacyOnly?: boolean; // /mcp is an SSE endpoint: GET opens the stream, POST gets a 405
+}
+
+const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+});
+
+const startFakeServer = async (options: FakeServerOptions = {}): Promise<FakeServer> => {
+  let stream: ServerResponse | null = null;
+  let markStreamOpened: () => void = () => { };
+  const fake: Omit<FakeServer, 'url' | 'close'> = {
+    posts: [],
+    deletes: [],
+    handlers: {
+      initialize: () => ({ result: { protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0], capabilities: { tools: {} }, serverInfo: { name: 'fake' } } }),
+      'tools/list': () => ({ result: { tools: [{ name: 'echo' }] } }),
+      'tools/call': (m) => ({ result: { content: [{ type: 'text', text: `echo ${m.params.arguments.text}` }] } }),
+    },
+    send: (message) => stream?.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`),
+    streamOpened: new Promise<void>(resolve => { markStreamOpened = resolve; }),
+  };
+
+  const openStream = (res: ServerResponse, firstEvent: string) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(firstEvent);
+    stream = res;
+    markStreamOpened();
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const path = req.url || '';
+    const isSseEndpoint = path === '/sse' || (path === '/mcp' && options.legacyOnly);
+    if (req.method === 'GET' && isSseEndpoint) return openStream(res, 'event: endpoint\ndata: /messages?session=abc\n\n');
+    if (req.method === 'GET' && path === '/mcp') {
+      if (!options.getStream) return res.writeHead(405).end();
+      return openStream(res, ': stream open\n\n');
+    }
+    if (req.method === 'DELETE') {
+      fake.deletes.push(req.headers);
+      return res.writeHead(204).end();
+    }
+    if (req.method !== 'POST') return res.writeHead(404).end();
+
+    const body = JSON.parse(await readBody(req));
+    fake.posts.push({ path, headers: req.headers, body });
+    if (path === '/mcp' && options.legacyOnly) return res.writeHead(405).end();
+    // Notifications and our answers to server requests get no reply.
+    if (!body.method || body.id === undefined) return res.writeHead(202).end();
+
+    const answer = fake.handlers[body.method]?.(body);
+    const reply = answer && { jsonrpc: '2.0', id: body.id, ...answer };
+    if (path.startsWith('/messages')) {
+      res.writeHead(202).end();
+      if (reply) fake.send(reply);
+      return;
+    }
+    if (!reply) return; // Left hanging until the client gives up
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+    res.end(JSON.stringify(reply));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    ...fake,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+// Node has no EventSource: a minimal one on top of fetch and the client's own stream parser.
+class TestEventSource {
+  static readonly CLOSED = 2;
+  readyState = 0;
+  onerror: (() => void) | null = null;
+  private readonly listeners = new Map<string, ((event: { data: string }) => void)[]>();
+  private readonly controller = new AbortController();
+
+  constructor(url: string) {
+    fetch(url, { headers: { Accept: 'text/event-stream' }, signal: this.controller.signal })
+      .then(response => {
+        if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+        this.readyState = 1;
+        return readEventStream(response.body, (event, data) => this.listeners.get(event)?.forEach(l => l({ data })));
+      })
+      .then(() => this.fail(), () => this.fail());
+  }
+
+  addEventListener(event: string, listener: (event: { data: string }) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+  }
+
+  close() {
+    this.readyState = TestEventSource.CLOSED;
+    this.controller.abort();
+  }
+
+  private fail() {
+    if (this.readyState === TestEventSource.CLOSED) return;
+    this.readyState = TestEventSource.CLOSED;
+    this.onerror?.();
+  }
+}
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+let server: FakeServer;
+const clients: McpClient[] = [];
+const track = <T extends { client: McpClient }>(opened: T): T => {
+  clients.push(opened.client);
+  return opened;
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { href: 'http://127.0.0.1/', hostname: '127.0.0.1' } });
+  vi.stubGlobal('EventSource', TestEventSource);
+});
+
+afterEach(async () => {
+  clients.splice(0).forEach(client => client.close());
+  await server?.close();
+  vi.unstubAllGlobals();
+});
+
+describe('McpClient over SSE', () => {
+  beforeEach(async () => { server = await startFakeServer(); });
+
+  it('discovers the POST endpoint from the endpoint event', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    expect(client.postUrl).toBe(`${server.url}/messages?session=abc`);
+    expect(server.posts[0].path).toBe('/messages?session=abc');
+  });
+
+  it('runs the initialize handshake and negotiates the protocol version', async () => {
+    server.handlers.initialize = () => ({ result: { protocolVersion: '2025-03-26', capabilities: {} } });
+    const { client, init } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse', clientInfo: { name: 'test', version: '1' } }));
+    expect(init.protocolVersion).toBe('2025-03-26');
+    expect(client.protocolVersion).toBe('2025-03-26');
+    const [initialize, initialized] = server.posts.map(p => p.body);
+    expect(initialize).toMatchObject({ method: 'initialize', params: { protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0], clientInfo: { name: 'test', version: '1' } } });
+    expect(initialized).toEqual({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  });
+
+  it('rejects a protocol version it does not support', async () => {
+    server.handlers.initialize = () => ({ result: { protocolVersion: '1999-01-01', capabilities: {} } });
+    await expect(McpClient.open({ url: `${server.url}/sse`, transport: 'sse' })).rejects.toThrow(/Unsupported MCP protocol version/);
+  });
+
+  it('matches replies to requests by id, whatever order they arrive in', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    server.handlers['slow/a'] = () => undefined;
+    server.handlers['slow/b'] = () => undefined;
+    const a = client.request('slow/a', {});
+    const b = client.request('slow/b', {});
+    await waitFor(() => server.posts.length === 4);
+    const [idA, idB] = server.posts.slice(2).map(p => p.body.id);
+    server.send({ jsonrpc: '2.0', id: idB, result: 'b' });
+    server.send({ jsonrpc: '2.0', id: idA, result: 'a' });
+    await expect(a).resolves.toBe('a');
+    await expect(b).resolves.toBe('b');
+  });
+
+  it('times out a request on its own timeout and drops the late reply', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    server.handlers.never = () => undefined;
+    await expect(client.request('never', {}, { timeoutMs: 50 })).rejects.toThrow(/Timeout waiting for never response/);
+    // The late reply must not be kept around or resolve a later request.
+    server.send({ jsonrpc: '2.0', id: server.posts[2].body.id, result: 'late' });
+    await expect(client.listTools()).resolves.toEqual([{ name: 'echo' }]);
+  });
+
+  it('maps JSON-RPC errors to McpError with the code', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    server.handlers['tools/call'] = () => ({ error: { code: -32601, message: 'no such tool', data: { name: 'x' } } });
+    const error = await client.callTool('x', {}).catch(e => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.message).toBe('Method not found: no such tool');
+    expect(error.code).toBe(-32601);
+    expect(error.data).toEqual({ name: 'x' });
+  });
+
+  it('answers ping and refuses other server requests', async () => {
+    track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    server.send({ jsonrpc: '2.0', id: 'p1', method: 'ping' });
+    server.send({ jsonrpc: '2.0', id: 'p2', method: 'sampling/createMessage', params: {} });
+    await waitFor(() => server.posts.length === 4);
+    const answers = server.posts.slice(2).map(p => p.body);
+    expect(answers).toContainEqual({ jsonrpc: '2.0', id: 'p1', result: {} });
+    expect(answers).toContainEqual({ jsonrpc: '2.0', id: 'p2', error: { code: -32601, message: 'Method not found: sampling/createMessage' } });
+  });
+
+  it('passes server notifications to onNotification', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    const onNotification = vi.fn();
+    client.onNotification = onNotification;
+    server.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    await waitFor(() => onNotification.mock.calls.length > 0);
+    expect(onNotification).toHaveBeenCalledWith('notifications/tools/list_changed', undefined);
+  });
+
+  it('rejects pending requests on close, and new ones after it', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse`, transport: 'sse' }));
+    server.handlers.never = () => undefined;
+    const pending = client.request('never', {});
+    await waitFor(() => server.posts.length === 3);
+    client.close();
+    await expect(pending).rejects.toThrow(/is closed/);
+    await expect(client.listTools()).rejects.toThrow(/is closed/);
+  });
+});
+
+describe('McpClient over Streamable HTTP', () => {
+  beforeEach(async () => { server = await startFakeServer(); });
+
+  it('carries the session id and protocol version on later requests', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp`, transport: 'streamable-http' }));
+    expect(client.sessionId).toBe('session-1');
+    await client.listTools();
+    const last = server.posts[server.posts.length - 1];
+    expect(last.headers['mcp-session-id']).toBe('session-1');
+    expect(last.headers['mcp-protocol-version']).toBe(SUPPORTED_PROTOCOL_VERSIONS[0]);
+  });
+
+  it('times out a request the server never answers', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp`, transport: 'streamable-http' }));
+    server.handlers.never = () => undefined;
+    await expect(client.request('never', {}, { timeoutMs: 50 })).rejects.toThrow(/Timeout waiting for never response/);
+  });
+
+  it('listens for server notifications on the GET stream', async () => {
+    await server.close();
+    server = await startFakeServer({ getStream: true });
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp`, transport: 'streamable-http' }));
+    const onNotification = vi.fn();
+    client.onNotification = onNotification;
+    await server.streamOpened;
+    server.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    await waitFor(() => onNotification.mock.calls.length > 0);
+    expect(onNotification).toHaveBeenCalledWith('notifications/tools/list_changed', undefined);
+  });
+
+  it('works without the GET stream when the server answers 405', async () => {
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp`, transport: 'streamable-http' }));
+    await expect(client.listTools()).resolves.toEqual([{ name: 'echo' }]);
+  });
+
+  it('ends the session with DELETE on close', async () => {
+    const { client } = await McpClient.open({ url: `${server.url}/mcp`, transport: 'streamable-http' });
+    client.close();
+    await waitFor(() => server.deletes.length === 1);
+    expect(server.deletes[0]['mcp-session-id']).toBe('session-1');
+  });
+});
+
+describe('McpClient.open transport detection', () => {
+  it('goes straight to SSE for an /sse URL', async () => {
+    server = await startFakeServer();
+    const { client } = track(await McpClient.open({ url: `${server.url}/sse` }));
+    expect(client.transport).toBe('sse');
+    expect(server.posts.every(p => p.path.startsWith('/messages'))).toBe(true);
+  });
+
+  it('falls back to SSE when the Streamable HTTP probe is rejected', async () => {
+    server = await startFakeServer({ legacyOnly: true });
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp` }));
+    expect(client.transport).toBe('sse');
+    expect(server.posts[0]).toMatchObject({ path: '/mcp', body: { method: 'initialize' } });
+  });
+
+  it('falls back to SSE when the Streamable HTTP probe fails without a status', async () => {
+    server = await startFakeServer({ legacyOnly: true });
+    const realFetch = globalThis.fetch;
+    // What a CORS or network failure looks like to the client.
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+      init?.method === 'POST' && String(input).endsWith('/mcp') ? Promise.reject(new TypeError('Failed to fetch')) : realFetch(input, init));
+    const { client } = track(await McpClient.open({ url: `${server.url}/mcp` }));
+    expect(client.transport).toBe('sse');
+  });
+
+  it('does not fall back on an auth failure', async () => {
+    server = await startFakeServer();
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+      init?.method === 'POST' ? Promise.resolve(new Response(null, { status: 401, statusText: 'Unauthorized' })) : realFetch(input, init));
+    await expect(McpClient.open({ url: `${server.url}/mcp` })).rejects.toMatchObject({ code: 401 });
+  });
+});
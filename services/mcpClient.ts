@@ -0,0 +1,548 @@
+// --- MCP Client ---
+// A small JSON-RPC 2.0 client for MCP servers, shared by the Settings panel (discovery and
+// testing) and the live conversation hook (tool calls).
+//
+// Two transports are supported:
+// - 'sse': the legacy HTTP+SSE transport. A GET EventSource announces a POST endpoint via an
+//   `endpoint` event, and replies come back on the stream.
+// - 'streamable-http': one endpoint for everything. Each POST answers with JSON or with a
+//   `text/event-stream` body, and the session is carried in the `Mcp-Session-Id` header.
+//   Plain "Direct POST (A2A)" servers that reply with JSON are handled by this transport too.
+
+export type McpTransport = 'sse' | 'streamable-http';
+
+export interface McpClientOptions {
+  url: string; // The SSE URL, or the single endpoint for Streamable HTTP
+  transport: McpTransport;
+  useCredentials?: boolean;
+  connectTimeoutMs?: number;
+  requestTimeoutMs?: number;
+  clientInfo?: { name: string; version: string };
+}
+
+/** Per-request options. Aborting `signal` rejects the request and sends `notifications/cancelled`. */
+export interface McpRequestOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/** Options for `McpClient.open`; without a transport it is detected. */
+export type McpOpenOptions = Omit<McpClientOptions, 'transport'> & { transport?: McpTransport };
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: any;
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface McpToolResult {
+  content?: McpContent[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** One item of a `resources/read` result: text, or base64 `blob` for binary resources. */
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo?: { name: string; version?: string };
+  instructions?: string;
+}
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+const JSON_RPC_ERROR_NAMES: Record<number, string> = {
+  [-32700]: 'Parse error',
+  [-32600]: 'Invalid request',
+  [-32601]: 'Method not found',
+  [-32602]: 'Invalid params',
+  [-32603]: 'Internal error',
+};
+
+/** Error raised for JSON-RPC error replies, timeouts and transport failures. */
+export class McpError extends Error {
+  readonly code?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, code?: number, data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+
+  static fromJsonRpc(error: JsonRpcError): McpError {
+    const kind = JSON_RPC_ERROR_NAMES[error.code] || 'MCP Server Error';
+    return new McpError(`${kind}: ${error.message || JSON.stringify(error)}`, error.code, error.data);
+  }
+}
+
+// Newest first: the first entry is what we offer in `initialize`.
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 30000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+const DEFAULT_CLIENT_INFO = { name: 'gemini-live-web', version: '1.0.0' };
+
+export const isLocalHost = () =>
+  window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
+
+// LOCAL PROXY REWRITE: If on localhost and using the Tailscale domain, use the Vite proxy path.
+export const rewriteForLocalProxy = (url: string): string => {
+  if (!isLocalHost() || !url.includes('agentzero.tail335dec.ts.net')) return url;
+  try {
+    const urlObj = new URL(url);
+    return urlObj.pathname + urlObj.search;
+  } catch (e) {
+    return url;
+  }
+};
+
+/** Best guess for servers saved before the transport was recorded. */
+export const inferTransport = (url: string): McpTransport =>
+  url.includes('/sse') ? 'sse' : 'streamable-http';
+
+/** Reads a `text/event-stream` body and calls `onEvent` for every complete event. */
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void,
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  const dispatchLine = (line: string) => {
+    if (line === '') {
+      if (data.length > 0) onEvent(event, data.join('\n'));
+      event = 'message';
+      data = [];
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() || '';
+    lines.forEach(dispatchLine);
+  }
+  if (buffer) dispatchLine(buffer);
+  dispatchLine('');
+};
+
+export class McpClient {
+  readonly url: string;
+  readonly transport: McpTransport;
+  postUrl: string;
+  sessionId: string | null = null;
+  protocolVersion: string | null = null;
+  /** Called for notifications the server sends, e.g. `notifications/tools/list_changed`. */
+  onNotification: ((method: string, params: any) => void) | null = null;
+
+  private readonly options: McpClientOptions;
+  private eventSource: EventSource | null = null;
+  private readonly abortController = new AbortController();
+  // Registered before each request is sent, so a reply without a waiter is stale (timed out or cancelled).
+  private readonly waiters = new Map<number, { resolve: (data: any) => void, reject: (e: Error) => void, timer: ReturnType<typeof setTimeout> }>();
+  private nextId = Date.now();
+  private closed = false;
+
+  constructor(options: McpClientOptions) {
+    this.options = options;
+    this.url = options.url;
+    this.transport = options.transport;
+    this.postUrl = options.url;
+  }
+
+  /**
+   * Opens a connection to `url` without knowing its transport. The transport the URL suggests is
+   * tried first. If that fails with a 4xx (other than an auth failure) or without any HTTP status
+   * (network and CORS errors), the other transport is tried, as the MCP spec recommends for
+   * backwards compatibility.
+   */
+  static async open(options: McpOpenOptions): Promise<{ client: McpClient; init: McpInitializeResult }> {
+    const attempt = async (transport: McpTransport) => {
+      const client = new McpClient({ ...options, transport });
+      try {
+        await client.connect();
+        const init = await client.initialize();
+        return { client, init };
+      } catch (e) {
+        client.close();
+        throw e;
+      }
+    };
+
+    if (options.transport) return attempt(options.transport);
+    const first = inferTransport(options.url);
+    const second: McpTransport = first === 'sse' ? 'streamable-http' : 'sse';
+    try {
+      return await attempt(first);
+    } catch (e) {
+      const status = (e as McpError).code;
+      // Negative codes are JSON-RPC errors: the transport worked. Auth failures would fail the
+      // other way too. Report both as they are.
+      const isHttpRejection = status !== undefined && status >= 400 && status < 500 && status !== 401 && status !== 403;
+      if (status === undefined || isHttpRejection) {
+        console.log(`[MCP] ${first} failed (${status ?? (e as Error).message}), trying ${second}.`);
+        return attempt(second);
+      }
+      throw e;
+    }
+  }
+
+  /** Opens the SSE stream and discovers the POST endpoint. A no-op for Streamable HTTP. */
+  async connect(): Promise<void> {
+    if (this.transport !== 'sse') return;
+    const timeoutMs = this.options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+    const es = new EventSource(this.url, { withCredentials: this.options.useCredentials });
+    this.eventSource = es;
+
+    this.postUrl = await new Promise<string>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.close();
+        reject(new McpError(`Timeout waiting for 'endpoint' event (${timeoutMs / 1000}s). Check if the server is starting up.`));
+      }, timeoutMs);
+
+      es.onerror = () => {
+        clearTimeout(timeout);
+        this.close();
+        reject(new McpError("EventSource connection error. Ensure the URL is correct and the server is reachable."));
+      };
+
+      es.addEventListener('endpoint', (event) => {
+        clearTimeout(timeout);
+        try {
+          const base = new URL(this.url, window.location.href);
+          resolve(rewriteForLocalProxy(new URL((event as MessageEvent).data, base).toString()));
+        } catch (e) {
+          this.close();
+          reject(new McpError("Invalid endpoint URL from server."));
+        }
+      });
+    });
+
+    es.addEventListener('message', (ev) => this.handleMessage(ev.data));
+    // After discovery, a closed stream means the session is gone: fail whatever is still pending.
+    es.onerror = () => {
+      if (es.readyState === EventSource.CLOSED) this.rejectAll(new McpError('MCP stream closed by the server.'));
+    };
+  }
+
+  /** Runs the initialize / notifications/initialized handshake and negotiates the protocol version. */
+  async initialize(): Promise<McpInitializeResult> {
+    const result = await this.request<McpInitializeResult>('initialize', {
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: {},
+      clientInfo: this.options.clientInfo || DEFAULT_CLIENT_INFO,
+    });
+    // The server answers with our version or one it prefers; we must support it to continue.
+    const negotiated = result?.protocolVersion || SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1];
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(negotiated)) {
+      throw new McpError(`Unsupported MCP protocol version '${negotiated}' (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}).`);
+    }
+    this.protocolVersion = negotiated;
+    await this.notify('notifications/initialized');
+    if (this.transport === 'streamable-http') this.openNotificationStream();
+    return result;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const result = await this.request<{ tools?: McpTool[] }>('tools/list', {});
+    return result?.tools || [];
+  }
+
+  callTool(name: string, args: Record<string, unknown>, options?: McpRequestOptions): Promise<McpToolResult> {
+    return this.request<McpToolResult>('tools/call', { name, arguments: args }, options);
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    const result = await this.request<{ resources?: McpResource[] }>('resources/list', {});
+    return result?.resources || [];
+  }
+
+  async readResource(uri: string, options?: McpRequestOptions): Promise<McpResourceContents[]> {
+    const result = await this.request<{ contents?: McpResourceContents[] }>('resources/read', { uri }, options);
+    return result?.contents || [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    const result = await this.request<{ prompts?: McpPrompt[] }>('prompts/list', {});
+    return result?.prompts || [];
+  }
+
+  /** Fills in a prompt template. MCP prompt arguments are always strings. */
+  getPrompt(name: string, args: Record<string, string>, options?: McpRequestOptions): Promise<{ description?: string; messages: McpPromptMessage[] }> {
+    return this.request('prompts/get', { name, arguments: args }, options);
+  }
+
+  /** Sends a JSON-RPC request and resolves with its `result`, or rejects with an McpError. */
+  async request<T = any>(method: string, params: object, options: McpRequestOptions = {}): Promise<T> {
+    if (this.closed) throw new McpError(`MCP client for ${this.url} is closed.`);
+    const { timeoutMs, signal } = options;
+    signal?.throwIfAborted();
+    const id = this.nextId++;
+
+    const reply = this.waitForId(id, method, timeoutMs);
+    // Keep the rejection handled if the POST itself fails first.
+    reply.catch(() => { });
+
+    // The caller gave up: stop waiting and ask the server to stop working on it.
+    const onAbort = () => {
+      const waiter = this.waiters.get(id);
+      if (!waiter) return;
+      this.dropWaiter(id);
+      waiter.reject(signal?.reason ?? new McpError(`${method} was cancelled.`));
+      const reason = signal?.reason instanceof Error ? signal.reason.message : 'Cancelled by the client';
+      this.notify('notifications/cancelled', { requestId: id, reason })
+        .catch(e => console.warn(`[MCP] Could not send notifications/cancelled for request ${id}:`, e));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // A timed out or cancelled request also ends a POST still waiting for its response headers.
+    const postAbort = new AbortController();
+    reply.catch(() => postAbort.abort());
+    try {
+      const response = await this.post({ jsonrpc: '2.0', method, id, params }, signal ? AbortSignal.any([signal, postAbort.signal]) : postAbort.signal);
+      // SSE replies arrive on the EventSource; Streamable HTTP replies in the POST response.
+      if (this.transport === 'streamable-http') this.consumeResponse(response, id);
+    } catch (e) {
+      this.dropWaiter(id);
+      signal?.removeEventListener('abort', onAbort);
+      // Report why the request ended (timeout, cancellation) rather than the aborted fetch.
+      if (postAbort.signal.aborted) await reply;
+      throw e;
+    }
+    try {
+      return this.unwrap(await reply);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /** Sends a JSON-RPC notification (no id, no reply). */
+  async notify(method: string, params?: object): Promise<void> {
+    if (this.closed) throw new McpError(`MCP client for ${this.url} is closed.`);
+    await this.post({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.abortController.abort();
+    this.rejectAll(new McpError(`MCP client for ${this.url} is closed.`));
+    // Streamable HTTP sessions are ended explicitly; servers may answer 405 if they don't allow it.
+    if (this.transport === 'streamable-http' && this.sessionId) {
+      fetch(this.postUrl, {
+        method: 'DELETE',
+        headers: this.sessionHeaders(),
+        credentials: this.credentials(),
+      }).catch(() => { });
+    }
+  }
+
+  /**
+   * Streamable HTTP servers send notifications that don't belong to a request (like
+   * `list_changed`) on an optional GET stream. Servers without one answer 405; that is fine.
+   */
+  private async openNotificationStream() {
+    try {
+      const response = await fetch(this.postUrl, {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', ...this.sessionHeaders() },
+        credentials: this.credentials(),
+        signal: this.abortController.signal,
+      });
+      if (!response.ok || !response.body || !(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+        if (response.status !== 405) console.log(`[MCP] No notification stream from ${this.url} (HTTP ${response.status}).`);
+        response.body?.cancel().catch(() => { });
+        return;
+      }
+      await readEventStream(response.body, (event, data) => {
+        if (event === 'message') this.handleMessage(data);
+      });
+    } catch (e) {
+      if (!this.closed) console.warn(`[MCP] Notification stream from ${this.url} failed:`, e);
+    }
+  }
+
+  private credentials(): RequestCredentials {
+    return this.options.useCredentials ? 'include' : 'same-origin';
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion;
+    return headers;
+  }
+
+  private async post(message: object, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.transport === 'streamable-http') {
+      headers['Accept'] = 'application/json, text/event-stream';
+      Object.assign(headers, this.sessionHeaders());
+    }
+    const response = await fetch(this.postUrl, {
+      method: 'POST',
+      headers,
+      credentials: this.credentials(),
+      body: JSON.stringify(message),
+      signal: signal ? AbortSignal.any([this.abortController.signal, signal]) : this.abortController.signal,
+    });
+    if (response.status === 404 && this.sessionId) {
+      throw new McpError('MCP session expired on the server. Reconnect to start a new one.', 404);
+    }
+    if (!response.ok) throw new McpError(`HTTP ${response.status} ${response.statusText}`.trim(), response.status);
+    const sessionId = response.headers.get('Mcp-Session-Id');
+    if (sessionId) this.sessionId = sessionId;
+    return response;
+  }
+
+  /** Routes a Streamable HTTP reply (JSON, JSON batch, or event stream) to the waiters. */
+  private consumeResponse(response: Response, id: number) {
+    const contentType = response.headers.get('Content-Type') || '';
+    const fail = (e: unknown) => {
+      const waiter = this.waiters.get(id);
+      if (!waiter) return;
+      this.dropWaiter(id);
+      waiter.reject(e instanceof McpError ? e : new McpError(`Invalid reply from MCP server: ${(e as Error).message}`));
+    };
+
+    if (contentType.includes('text/event-stream') && response.body) {
+      readEventStream(response.body, (event, data) => {
+        if (event === 'message') this.handleMessage(data);
+      })
+        .then(() => fail(new McpError('MCP event stream ended before the reply arrived.')))
+        .catch(e => { if (!this.closed) fail(e); });
+      return;
+    }
+
+    response.json()
+      .then(data => {
+        const messages = Array.isArray(data) ? data : [data];
+        messages.forEach(m => this.handleMessage(m));
+        // Some Direct POST (A2A) servers don't echo the request id: take their single reply as ours.
+        const waiter = this.waiters.get(id);
+        if (waiter && messages.length === 1) {
+          this.dropWaiter(id);
+          waiter.resolve(messages[0]);
+        }
+      })
+      .catch(fail);
+  }
+
+  private unwrap<T>(message: any): T {
+    if (message?.error) throw McpError.fromJsonRpc(message.error);
+    return message?.result as T;
+  }
+
+  private handleMessage(raw: string | object) {
+    let data: any = raw;
+    if (typeof raw === 'string') {
+      try {
+        data = JSON.parse(raw);
+      } catch (e) {
+        console.warn("[MCP] Non-JSON message:", raw);
+        return;
+      }
+    }
+    // Notifications and requests from the server carry a method; replies never do.
+    if (data.method) {
+      if (data.id === undefined || data.id === null) this.onNotification?.(data.method, data.params);
+      else this.answerServerRequest(data);
+      return;
+    }
+    if (data.id === undefined || data.id === null) return;
+    const waiter = this.waiters.get(data.id);
+    if (!waiter) return;
+    clearTimeout(waiter.timer);
+    this.waiters.delete(data.id);
+    waiter.resolve(data);
+  }
+
+  // The client offers no capabilities, so `ping` is the only request a server may send it.
+  // Anything else is refused rather than left for the server to time out on.
+  private answerServerRequest(request: { id: string | number; method: string }) {
+    if (this.closed) return;
+    const reply = request.method === 'ping'
+      ? { jsonrpc: '2.0', id: request.id, result: {} }
+      : { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+    this.post(reply).catch(e => console.warn(`[MCP] Could not answer the server's ${request.method} request:`, e));
+  }
+
+  private waitForId(id: number, method: string, timeoutMs?: number): Promise<any> {
+    const ms = timeoutMs ?? this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(id);
+        reject(new McpError(`Timeout waiting for ${method} response (ID ${id}, ${ms / 1000}s).`));
+      }, ms);
+      this.waiters.set(id, { resolve, reject, timer });
+    });
+  }
+
+  private dropWaiter(id: number) {
+    const waiter = this.waiters.get(id);
+    if (!waiter) return;
+    clearTimeout(waiter.timer);
+    this.waiters.delete(id);
+  }
+
+  private rejectAll(error: Error) {
+    this.waiters.forEach(w => { clearTimeout(w.timer); w.reject(error); });
+    this.waiters.clear();
+  }
+}
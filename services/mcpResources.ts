@@ -0,0 +1,70 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { McpServer } from '../components/SettingsPanel';
+import { McpPromptMessage, McpResource, McpResourceContents } from './mcpClient';
+
+// --- MCP Resources and Prompts ---
+// Resources (documents, knowledge base entries) reach the model in two ways: the built-in
+// `read_resource` tool reads any listed resource on demand, and resources pinned in Settings are
+// read at conversation start and added to the system instruction. Prompts are templates the user
+// can fill in as the personality.
+
+export const READ_RESOURCE_TOOL = 'read_resource';
+
+// Keeps the declaration readable when a server lists a whole knowledge base.
+const MAX_LISTED_RESOURCES = 100;
+// Per pinned resource, so one large document can't crowd out the rest of the instruction.
+const MAX_PINNED_CHARS = 20000;
+
+export const resourceLabel = (resource: McpResource): string => resource.title || resource.name || resource.uri;
+
+/** The declaration for `read_resource`, or null when no server offers resources. */
+export const readResourceDeclaration = (servers: McpServer[]): FunctionDeclaration | null => {
+  const resources = servers.flatMap(s => s.resources || []);
+  if (resources.length === 0) return null;
+  const catalog = resources
+    .slice(0, MAX_LISTED_RESOURCES)
+    .map(r => `- ${r.uri}: ${resourceLabel(r)}${r.description ? ` (${r.description})` : ''}`)
+    .join('\n');
+  const more = resources.length > MAX_LISTED_RESOURCES ? `\n(and ${resources.length - MAX_LISTED_RESOURCES} more)` : '';
+  return {
+    name: READ_RESOURCE_TOOL,
+    description: `Reads a document from the user's knowledge sources. Call it when the user asks about something these cover:\n${catalog}${more}`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        uri: { type: Type.STRING, description: 'The URI of the resource to read, exactly as listed.' },
+      },
+      required: ['uri'],
+    },
+  };
+};
+
+/** The server whose resource list includes `uri`. */
+export const findResourceServer = (servers: McpServer[], uri: string): McpServer | undefined =>
+  servers.find(s => s.resources?.some(r => r.uri === uri));
+
+/** Turns `resources/read` contents into text for the model. Binary parts are described, not sent. */
+export const resourceContentsToText = (contents: McpResourceContents[]): string =>
+  contents
+    .map(c => c.text ?? `[Binary resource ${c.uri} (${c.mimeType || 'unknown type'}, about ${Math.floor((c.blob?.length || 0) * 3 / 4)} bytes)]`)
+    .join('\n\n');
+
+/** Formats pinned resources as a block for the system instruction. */
+export const formatPinnedResources = (documents: { resource: McpResource; text: string }[]): string =>
+  documents
+    .map(({ resource, text }) => {
+      const body = text.length > MAX_PINNED_CHARS ? `${text.slice(0, MAX_PINNED_CHARS)}\n[Truncated]` : text;
+      return `--- ${resourceLabel(resource)} (${resource.uri}) ---\n${body}`;
+    })
+    .join('\n\n');
+
+/** Joins a filled-in prompt's messages into one block of text for the personality. */
+export const promptMessagesToText = (messages: McpPromptMessage[]): string =>
+  messages
+    .map(({ content }) => {
+      if (content.type === 'text') return content.text || '';
+      const embedded = (content as { resource?: McpResourceContents }).resource;
+      return embedded ? resourceContentsToText([embedded]) : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
@@ -0,0 +1,59 @@
+import { Blob } from '@google/genai';
+import { McpContent, McpResourceContents, McpToolResult } from './mcpClient';
+import { resourceContentsToText } from './mcpResources';
+
+// --- MCP Tool Results ---
+// `tools/call` answers with a list of typed content items. Text goes to the model as the
+// function response; images are sent to the session separately as image input (base64 inside a
+// text response would only cost tokens), and everything else is summarised in a line of text.
+
+// Image types Gemini accepts as input.
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+// Embedded text resources beyond this are cut; the model can read the whole thing with read_resource.
+const MAX_EMBEDDED_CHARS = 20000;
+
+export interface InterpretedMcpResult {
+  text: string;
+  images: Blob[];
+  isError: boolean;
+}
+
+const approximateBytes = (base64: string | undefined) => Math.floor(((base64 || '').length * 3) / 4);
+
+const describeEmbeddedResource = (resource: McpResourceContents): string => {
+  if (resource.text === undefined) return `[Embedded resource ${resource.uri}: ${resourceContentsToText([resource])}]`;
+  const text = resource.text.length > MAX_EMBEDDED_CHARS ? `${resource.text.slice(0, MAX_EMBEDDED_CHARS)}\n[Truncated]` : resource.text;
+  return `[Embedded resource ${resource.uri}]\n${text}`;
+};
+
+/** Splits a `tools/call` result into text for the function response and images for the session. */
+export const interpretMcpToolResult = (result: McpToolResult): InterpretedMcpResult => {
+  const images: Blob[] = [];
+  const describe = (item: McpContent): string => {
+    switch (item.type) {
+      case 'text':
+        return item.text || '';
+      case 'image': {
+        const mimeType = String(item.mimeType || '');
+        if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) return `[Image in an unsupported format (${mimeType || 'unknown type'}) was omitted]`;
+        images.push({ data: String(item.data || ''), mimeType });
+        return `[Image ${images.length} (${mimeType}) has been sent to you as image input]`;
+      }
+      case 'audio':
+        return `[Audio clip (${item.mimeType || 'unknown type'}, about ${approximateBytes(item.data as string)} bytes) was omitted]`;
+      case 'resource_link': {
+        const description = item.description ? ` - ${item.description}` : '';
+        return `[Linked resource: ${item.title || item.name || item.uri} <${item.uri}>${description}]`;
+      }
+      case 'resource':
+        return describeEmbeddedResource(item.resource as McpResourceContents);
+      default:
+        return JSON.stringify(item);
+    }
+  };
+
+  const parts = (result?.content || []).map(describe).filter(Boolean);
+  // Tools from 2025-06-18 servers may answer with structured content only.
+  if (parts.length === 0) parts.push(JSON.stringify(result?.structuredContent ?? result));
+  return { text: parts.join('\n'), images, isError: result?.isError === true };
+};
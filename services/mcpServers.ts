@@ -0,0 +1,102 @@
+import { McpServer } from '../components/SettingsPanel';
+import { convertMcpToolToGemini } from './geminiSchema';
+import { McpClient, McpError, McpInitializeResult, McpPrompt, McpResource, McpTool, inferTransport } from './mcpClient';
+
+// --- MCP Server Health ---
+// Saved servers keep a cached list of their tools, resources and prompts for the Settings panel
+// and for declaring tools. The cache is refreshed on demand, at conversation start and on the
+// `list_changed` notifications, and each check records whether the server answered.
+
+export type McpServerStatus = 'connected' | 'unreachable' | 'auth-failed';
+
+export const MCP_STATUS_LABELS: Record<McpServerStatus, string> = {
+  connected: 'Connected',
+  unreachable: 'Unreachable',
+  'auth-failed': 'Auth failed',
+};
+
+/** The fields a successful check updates on a saved server. */
+export type McpServerSnapshot = Pick<McpServer, 'postUrl' | 'transport' | 'protocolVersion' | 'name' | 'tools' | 'resources' | 'prompts' | 'schemaWarnings' | 'status' | 'statusDetail' | 'lastCheckedAt'>;
+
+export const classifyMcpFailure = (error: unknown): Exclude<McpServerStatus, 'connected'> => {
+  const code = (error as McpError)?.code;
+  return code === 401 || code === 403 ? 'auth-failed' : 'unreachable';
+};
+
+/** The server's own name from `initialize`, else the host it runs on. */
+export const serverDisplayName = (init: McpInitializeResult, url: string): string => {
+  const info = init.serverInfo;
+  if (info?.name) return info.version ? `${info.name} ${info.version}` : info.name;
+  try {
+    return new URL(url, window.location.href).host || 'MCP Server';
+  } catch {
+    return 'MCP Server';
+  }
+};
+
+export interface McpCatalog {
+  tools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+}
+
+/**
+ * Lists a server's tools, plus its resources and prompts when `initialize` announced them.
+ * Only the tool list is required: a server whose resources or prompts fail to list still works.
+ */
+export const listMcpCatalog = async (client: McpClient, init: McpInitializeResult): Promise<McpCatalog> => {
+  const listOptional = async <T>(capability: 'resources' | 'prompts', list: () => Promise<T[]>): Promise<T[]> => {
+    if (!init.capabilities?.[capability]) return [];
+    try {
+      return await list();
+    } catch (e) {
+      console.warn(`[MCP] Could not list ${capability} on ${client.url}:`, e);
+      return [];
+    }
+  };
+  const tools = await client.listTools();
+  const [resources, prompts] = await Promise.all([
+    listOptional('resources', () => client.listResources()),
+    listOptional('prompts', () => client.listPrompts()),
+  ]);
+  return { tools, resources, prompts };
+};
+
+/** Builds a server snapshot from an open client and its current catalog. */
+export const snapshotMcpServer = (client: McpClient, init: McpInitializeResult, { tools, resources, prompts }: McpCatalog): McpServerSnapshot => {
+  const conversions = tools.map(convertMcpToolToGemini);
+  const schemaWarnings = conversions.flatMap(c => c.warnings);
+  if (schemaWarnings.length > 0) console.warn(`[MCP] Schema conversion warnings for ${client.url}:`, schemaWarnings);
+  return {
+    postUrl: client.postUrl,
+    transport: client.transport,
+    protocolVersion: client.protocolVersion || undefined,
+    name: serverDisplayName(init, client.url),
+    tools: conversions.map(c => c.declaration),
+    resources,
+    prompts,
+    schemaWarnings,
+    status: 'connected',
+    statusDetail: undefined,
+    lastCheckedAt: Date.now(),
+  };
+};
+
+/** Connects to a saved server, re-lists its catalog and returns it updated. Failures are recorded, not thrown. */
+export const refreshMcpServer = async (server: McpServer): Promise<McpServer> => {
+  let client: McpClient | null = null;
+  try {
+    const opened = await McpClient.open({
+      url: server.url,
+      transport: server.transport || inferTransport(server.url),
+      useCredentials: server.useCredentials,
+    });
+    client = opened.client;
+    return { ...server, ...snapshotMcpServer(client, opened.init, await listMcpCatalog(client, opened.init)) };
+  } catch (e) {
+    console.warn(`[MCP] Health check failed for ${server.name}:`, e);
+    return { ...server, status: classifyMcpFailure(e), statusDetail: (e as Error).message, lastCheckedAt: Date.now() };
+  } finally {
+    client?.close();
+  }
+};
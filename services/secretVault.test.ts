@@ -0,0 +1,105 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings, Connection } from '../components/SettingsPanel';
+
+// The vault keeps its unlocked key in module state: importing it afresh is a page reload.
+const loadVault = async () => {
+  vi.resetModules();
+  return import('./secretVault');
+};
+
+class MemoryStorage {
+  private readonly items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const SECRETS = { apiKey: 'AIza-test-key', connectionHeaders: { c1: { Authorization: 'Bearer abcdef' } } };
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('secret vault', () => {
+  it('encrypts the secrets and unlocks them again with the passphrase', async () => {
+    const vault = await loadVault();
+    expect(vault.getVaultStatus()).toBe('none');
+    await vault.createVault('correct horse', SECRETS);
+    expect(vault.getVaultStatus()).toBe('unlocked');
+    expect(localStorage.getItem('gemini-live-vault')).not.toContain('AIza');
+
+    vault.lockVault();
+    expect(vault.getVaultStatus()).toBe('locked');
+    await expect(vault.unlockVault('correct horse')).resolves.toEqual(SECRETS);
+    expect(vault.getVaultStatus()).toBe('unlocked');
+
+    await vault.saveVaultSecrets({ ...SECRETS, apiKey: 'AIza-new-key' });
+    vault.lockVault();
+    await expect(vault.unlockVault('correct horse')).resolves.toMatchObject({ apiKey: 'AIza-new-key' });
+  });
+
+  it('rejects a wrong passphrase and stays locked', async () => {
+    const vault = await loadVault();
+    await vault.createVault('correct horse', SECRETS);
+    vault.lockVault();
+    await expect(vault.unlockVault('battery staple')).rejects.toThrow('Wrong passphrase.');
+    expect(vault.getVaultStatus()).toBe('locked');
+    await expect(vault.saveVaultSecrets(SECRETS)).rejects.toThrow('The vault is locked.');
+  });
+
+  it('stays unlocked across reloads in the same tab session', async () => {
+    await (await loadVault()).createVault('correct horse', SECRETS);
+
+    const reloaded = await loadVault();
+    expect(reloaded.getVaultStatus()).toBe('locked');
+    await expect(reloaded.restoreVaultSession()).resolves.toEqual(SECRETS);
+    expect(reloaded.getVaultStatus()).toBe('unlocked');
+  });
+
+  it('asks for the passphrase again in a new session or after locking', async () => {
+    const vault = await loadVault();
+    await vault.createVault('correct horse', SECRETS);
+    vault.lockVault();
+    await expect((await loadVault()).restoreVaultSession()).resolves.toBeNull();
+
+    await vault.unlockVault('correct horse');
+    vi.stubGlobal('sessionStorage', new MemoryStorage()); // The tab was closed
+    const reloaded = await loadVault();
+    await expect(reloaded.restoreVaultSession()).resolves.toBeNull();
+    expect(reloaded.getVaultStatus()).toBe('locked');
+  });
+
+  it('moves secrets out of settings and back', async () => {
+    const { extractSecrets, applySecrets } = await loadVault();
+    const connection = { id: 'c1', name: 'hook', headers: [{ name: 'Authorization', value: 'Bearer abcdef' }] } as Connection;
+    const settings = { apiKey: 'AIza-test-key', connections: [connection] } as unknown as AppSettings;
+    const split = extractSecrets(settings);
+    expect(split.secrets).toEqual(SECRETS);
+    expect(split.settings.apiKey).toBe('');
+    expect(split.settings.connections[0].headers).toEqual([{ name: 'Authorization', value: '' }]);
+    expect(applySecrets(split.settings, split.secrets)).toEqual(settings);
+  });
+});
+
+describe('redactSecrets', () => {
+  it('replaces known secrets in strings and nested values', async () => {
+    const { redactSecrets, setKnownSecrets } = await loadVault();
+    setKnownSecrets({ apiKey: 'AIza-test-key', connections: [{ id: 'c1', headers: [{ name: 'X', value: 'AIza-test-key-long' }] }] } as unknown as AppSettings);
+    expect(redactSecrets('key=AIza-test-key-long; other=AIza-test-key')).toBe('key=[redacted]; other=[redacted]');
+    expect(redactSecrets({ list: ['AIza-test-key', 3, null], nested: { ok: 'fine' } }))
+      .toEqual({ list: ['[redacted]', 3, null], nested: { ok: 'fine' } });
+  });
+
+  it('leaves text alone when there are no secrets, or only short ones', async () => {
+    const { redactSecrets, setKnownSecrets } = await loadVault();
+    expect(redactSecrets('AIza-test-key')).toBe('AIza-test-key');
+    setKnownSecrets({ apiKey: '12345', connections: [] } as unknown as AppSettings);
+    expect(redactSecrets('order 12345')).toBe('order 12345');
+  });
+});
@@ -0,0 +1,252 @@
+import { AppSettings } from '../components/SettingsPanel';
+
+// --- Secret Vault ---
+// Optional passphrase protection for the secret settings: the Gemini API key and webhook header
+// values. Secrets are encrypted with AES-GCM under a key derived by PBKDF2 and stored apart from
+// the rest of the settings. Unlocking lasts for the browser tab's session: the derived key is kept
+// in sessionStorage, wrapped by a non-extractable key in IndexedDB. Neither is of use alone, and
+// the wrapped copy goes away with the tab.
+
+const VAULT_STORAGE_KEY = 'gemini-live-vault';
+const SESSION_STORAGE_KEY = 'gemini-live-vault-session';
+const KEY_DB_NAME = 'gemini-live-vault';
+const KEY_STORE = 'keys';
+const WRAPPING_KEY_ID = 'session-wrapping';
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+export interface VaultSecrets {
+  apiKey: string;
+  connectionHeaders: Record<string, Record<string, string>>; // Connection id -> header name -> value
+}
+
+interface StoredVault {
+  version: 1;
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+  ciphertext: string; // Base64
+}
+
+interface WrappedSessionKey {
+  iv: string; // Base64
+  wrapped: string; // Base64
+}
+
+let unlockedKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const readStoredVault = (): StoredVault | null => {
+  const json = localStorage.getItem(VAULT_STORAGE_KEY);
+  return json ? JSON.parse(json) : null;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true, // Only so it can be wrapped for the session; rememberKey hands back a non-extractable copy
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const decryptSecrets = async (key: CryptoKey, stored: StoredVault): Promise<VaultSecrets> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// --- Session Key ---
+
+const withKeyStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(KEY_STORE, mode).objectStore(KEY_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getWrappingKey = async (create: boolean): Promise<CryptoKey | null> => {
+  const existing = await withKeyStore<CryptoKey | undefined>('readonly', store => store.get(WRAPPING_KEY_ID));
+  if (existing || !create) return existing || null;
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+  await withKeyStore('readwrite', store => store.put(key, WRAPPING_KEY_ID));
+  return key;
+};
+
+const unwrapSessionKey = (wrappingKey: CryptoKey, session: WrappedSessionKey): Promise<CryptoKey> =>
+  crypto.subtle.unwrapKey(
+    'raw', fromBase64(session.wrapped), wrappingKey, { name: 'AES-GCM', iv: fromBase64(session.iv) },
+    { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'],
+  );
+
+/**
+ * Keeps `key` for the rest of the tab session and returns a non-extractable copy to use. Without
+ * IndexedDB (e.g. some private modes) the key is used as it is and the next page load asks again.
+ */
+const rememberKey = async (key: CryptoKey): Promise<CryptoKey> => {
+  try {
+    const wrappingKey = (await getWrappingKey(true))!;
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+    const session: WrappedSessionKey = { iv: toBase64(iv), wrapped: toBase64(new Uint8Array(wrapped)) };
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return await unwrapSessionKey(wrappingKey, session);
+  } catch (e) {
+    console.warn('Could not keep the vault unlocked for this session:', e);
+    return key;
+  }
+};
+
+const forgetKey = () => {
+  unlockedKey = null;
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+/**
+ * Unlocks the vault with the key remembered earlier in this tab session, e.g. before a reload.
+ * Returns the secrets, or null when the user has to enter the passphrase.
+ */
+export const restoreVaultSession = async (): Promise<VaultSecrets | null> => {
+  const stored = readStoredVault();
+  const json = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored || !json) return null;
+  try {
+    const wrappingKey = await getWrappingKey(false);
+    if (!wrappingKey) throw new Error('The session wrapping key is gone.');
+    const key = await unwrapSessionKey(wrappingKey, JSON.parse(json));
+    const secrets = await decryptSecrets(key, stored);
+    unlockedKey = key;
+    return secrets;
+  } catch (e) {
+    console.warn('Could not restore the vault session; asking for the passphrase:', e);
+    forgetKey();
+    return null;
+  }
+};
+
+// --- Vault ---
+
+const encryptSecrets = async (key: CryptoKey, secrets: VaultSecrets, salt: string, iterations: number): Promise<StoredVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+  return { version: 1, iterations, salt, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+export const getVaultStatus = (): VaultStatus => {
+  if (!localStorage.getItem(VAULT_STORAGE_KEY)) return 'none';
+  return unlockedKey ? 'unlocked' : 'locked';
+};
+
+/** Encrypts `secrets` under a new passphrase and leaves the vault unlocked. */
+export const createVault = async (passphrase: string, secrets: VaultSecrets): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const stored = await encryptSecrets(key, secrets, toBase64(salt), PBKDF2_ITERATIONS);
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(stored));
+  unlockedKey = await rememberKey(key);
+};
+
+/** Decrypts the vault. A wrong passphrase fails AES-GCM authentication and throws. */
+export const unlockVault = async (passphrase: string): Promise<VaultSecrets> => {
+  const stored = readStoredVault();
+  if (!stored) throw new Error('There is no vault to unlock.');
+  const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+  let secrets: VaultSecrets;
+  try {
+    secrets = await decryptSecrets(key, stored);
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+  unlockedKey = await rememberKey(key);
+  return secrets;
+};
+
+/** Re-encrypts the vault with new secrets. Requires an unlocked vault. */
+export const saveVaultSecrets = async (secrets: VaultSecrets): Promise<void> => {
+  const stored = readStoredVault();
+  if (!stored || !unlockedKey) throw new Error('The vault is locked.');
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await encryptSecrets(unlockedKey, secrets, stored.salt, stored.iterations)));
+};
+
+export const lockVault = () => {
+  forgetKey();
+};
+
+/** Deletes the vault. The caller is responsible for storing the secrets some other way. */
+export const removeVault = () => {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  forgetKey();
+};
+
+// --- Splitting Settings ---
+
+/** Separates the secret fields from settings; the returned settings have them blanked. */
+export const extractSecrets = (settings: AppSettings): { settings: AppSettings; secrets: VaultSecrets } => {
+  const connectionHeaders: VaultSecrets['connectionHeaders'] = {};
+  const connections = settings.connections.map(conn => {
+    if (!conn.headers || conn.headers.length === 0) return conn;
+    connectionHeaders[conn.id] = Object.fromEntries(conn.headers.map(h => [h.name, h.value]));
+    return { ...conn, headers: conn.headers.map(h => ({ ...h, value: '' })) };
+  });
+  return {
+    settings: { ...settings, apiKey: '', connections },
+    secrets: { apiKey: settings.apiKey, connectionHeaders },
+  };
+};
+
+/** Puts decrypted secrets back into settings loaded with blanked fields. */
+export const applySecrets = (settings: AppSettings, secrets: VaultSecrets): AppSettings => ({
+  ...settings,
+  apiKey: secrets.apiKey,
+  connections: settings.connections.map(conn => {
+    const values = secrets.connectionHeaders[conn.id];
+    if (!values || !conn.headers) return conn;
+    return { ...conn, headers: conn.headers.map(h => ({ ...h, value: values[h.name] ?? h.value })) };
+  }),
+});
+
+// --- Redaction ---
+
+const REDACTED = '[redacted]';
+// Short values (e.g. a header set to "1") would redact ordinary text.
+const MIN_SECRET_LENGTH = 6;
+
+let knownSecrets: string[] = [];
+
+/** Records the secret values that `redactSecrets` should hide. Call whenever settings change. */
+export const setKnownSecrets = (settings: AppSettings) => {
+  const { secrets } = extractSecrets(settings);
+  const values = [secrets.apiKey, ...Object.values(secrets.connectionHeaders).flatMap(h => Object.values(h))];
+  // Longest first, so a secret containing another is replaced whole.
+  knownSecrets = [...new Set(values.filter(v => v && v.length >= MIN_SECRET_LENGTH))].sort((a, b) => b.length - a.length);
+};
+
+/** Replaces every known secret in a string, or in the strings of a JSON-like value. */
+export const redactSecrets = <T>(value: T): T => {
+  if (knownSecrets.length === 0) return value;
+  if (typeof value === 'string') {
+    return knownSecrets.reduce((text, secret) => text.split(secret).join(REDACTED), value as string) as T;
+  }
+  if (Array.isArray(value)) return value.map(v => redactSecrets(v)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactSecrets(v)])) as T;
+  }
+  return value;
+};
@@ -0,0 +1,99 @@
+import { Blob, FunctionResponse } from '@google/genai';
+
+// --- Tool Call Log ---
+// Every function call the model makes is recorded here for the inspector: who handled it, how
+// long it took, and the exact response sent back with sendToolResponse.
+
+export type ToolProvider =
+  | { kind: 'builtin' }
+  | { kind: 'webhook'; connectionId: string; connectionName: string }
+  | { kind: 'mcp'; serverId: string; serverName: string; toolName: string }; // toolName as the server knows it
+
+export type ToolCallStatus = 'awaiting-approval' | 'running' | 'success' | 'error' | 'denied' | 'cancelled';
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  provider: ToolProvider | null; // null when no provider declares the tool
+  status: ToolCallStatus;
+  startedAt: number;
+  completedAt?: number;
+  latencyMs?: number;
+  response?: FunctionResponse; // Exactly what was sent back to the model
+  imageCount?: number; // Images sent to the session alongside the response
+  error?: string;
+  replayOf?: string; // Set on manual replays from the inspector; these are never sent to the model
+}
+
+/** What running a tool produces: the function response result, and images for the model to look at. */
+export interface ToolOutput {
+  result: unknown;
+  images?: Blob[];
+}
+
+export const describeProvider = (provider: ToolProvider | null): string => {
+  if (!provider) return 'Unknown tool';
+  switch (provider.kind) {
+    case 'builtin': return 'Built-in';
+    case 'webhook': return `Webhook (${provider.connectionName})`;
+    case 'mcp': return `MCP (${provider.serverName})`;
+  }
+};
+
+export const beginToolCall = (
+  records: ToolCallRecord[],
+  record: Omit<ToolCallRecord, 'status' | 'startedAt'>,
+  status: 'awaiting-approval' | 'running' = 'running',
+): ToolCallRecord[] => [
+  ...records,
+  { ...record, status, startedAt: Date.now() },
+];
+
+/** Moves an approved call to running. Latency is measured from here, not from the prompt. */
+export const approveToolCall = (records: ToolCallRecord[], id: string): ToolCallRecord[] =>
+  records.map(r => (r.id === id && r.status === 'awaiting-approval' ? { ...r, status: 'running', startedAt: Date.now() } : r));
+
+const isPending = (status: ToolCallStatus) => status === 'awaiting-approval' || status === 'running';
+
+export const finishToolCall = (
+  records: ToolCallRecord[],
+  id: string,
+  outcome: { status: 'success' | 'error' | 'denied' | 'cancelled'; response?: FunctionResponse; imageCount?: number; error?: string },
+): ToolCallRecord[] =>
+  records.map(r => {
+    if (r.id !== id || !isPending(r.status)) return r;
+    const completedAt = Date.now();
+    return { ...r, ...outcome, completedAt, latencyMs: completedAt - r.startedAt };
+  });
+
+// --- Timeouts and Cancellation ---
+
+export const DEFAULT_TOOL_TIMEOUT_SEC = 30;
+
+/** The timeout for a tool: its own setting, else the default. */
+export const getToolTimeoutMs = (timeouts: Record<string, number> | undefined, defaultSec: number | undefined, name: string): number =>
+  (timeouts?.[name] || defaultSec || DEFAULT_TOOL_TIMEOUT_SEC) * 1000;
+
+/**
+ * The reason a tool call's AbortController was aborted. Timeouts still answer the model with an
+ * error; cancellations (by the model, a reconnect or stopping the conversation) don't answer.
+ */
+export class ToolCallAbortError extends Error {
+  constructor(message: string, readonly kind: 'timeout' | 'cancelled') {
+    super(message);
+    this.name = 'ToolCallAbortError';
+  }
+}
+
+/** Rejects with the signal's reason as soon as it aborts, whether or not `promise` honours it. */
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Connection, McpServer } from '../components/SettingsPanel';
+import {
+  buildToolRegistry, exposedMcpToolName, migrateToolSettingKeys, reservedBuiltins, sanitizeToolName, sanitizeToolPrefix, toolSettingsKey,
+} from './toolNames';
+
+const webhook = (id: string, name: string): Connection => ({ id, name, description: `Calls ${name}`, url: 'https://api.test' });
+const mcpServer = (id: string, tools: string[], toolPrefix?: string): McpServer => ({
+  id, name: `Server ${id}`, url: 'https://mcp.test', postUrl: 'https://mcp.test', status: 'connected', toolPrefix,
+  tools: tools.map(name => ({ name, description: name })),
+});
+
+describe('sanitizeToolName', () => {
+  it('replaces characters Gemini does not allow', () => {
+    expect(sanitizeToolName('Get Weather!')).toBe('Get_Weather_');
+    expect(sanitizeToolName('  search.docs:v2-beta ')).toBe('search.docs:v2-beta');
+    expect(sanitizeToolName('météo')).toBe('m_t_o');
+  });
+
+  it('makes names start with a letter or underscore', () => {
+    expect(sanitizeToolName('3d_print')).toBe('_3d_print');
+    expect(sanitizeToolName('-flag')).toBe('_-flag');
+    expect(sanitizeToolName('_private')).toBe('_private');
+  });
+
+  it('truncates to 64 characters', () => {
+    expect(sanitizeToolName('a'.repeat(80))).toBe('a'.repeat(64));
+    expect(sanitizeToolName('9' + 'b'.repeat(70))).toHaveLength(64);
+  });
+});
+
+describe('tool prefixes', () => {
+  it('only keep letters, digits and underscores', () => {
+    expect(sanitizeToolPrefix(' agent-zero.v1 ')).toBe('agent_zero_v1');
+  });
+
+  it('join the prefix and the tool name with a double underscore', () => {
+    expect(exposedMcpToolName({ toolPrefix: 'agentzero' }, 'send_message')).toBe('agentzero__send_message');
+    expect(exposedMcpToolName({}, 'send message')).toBe('send_message');
+    expect(exposedMcpToolName({ toolPrefix: 'p' }, 'x'.repeat(70))).toBe(`p__${'x'.repeat(61)}`);
+  });
+});
+
+describe('buildToolRegistry', () => {
+  it('declares every tool under its exposed name, with its provider', () => {
+    const { entries, collisions } = buildToolRegistry({
+      connections: [webhook('c1', 'Get Weather')],
+      mcpServers: [mcpServer('s1', ['search'], 'docs')],
+    }, [{ name: 'take_snapshot' }]);
+    expect(entries.map(e => [e.name, e.declaration.name, e.provider])).toEqual([
+      ['Get_Weather', 'Get_Weather', { kind: 'webhook', connectionId: 'c1', connectionName: 'Get Weather' }],
+      ['docs__search', 'docs__search', { kind: 'mcp', serverId: 's1', serverName: 'Server s1', toolName: 'search' }],
+      ['take_snapshot', 'take_snapshot', { kind: 'builtin' }],
+    ]);
+    expect(collisions).toEqual([]);
+  });
+
+  it('reports names claimed by webhooks, MCP tools and builtins alike', () => {
+    const { collisions } = buildToolRegistry({
+      connections: [webhook('c1', 'lookup'), webhook('c2', 'take snapshot')],
+      mcpServers: [mcpServer('s1', ['lookup']), mcpServer('s2', ['search']), mcpServer('s3', ['search'])],
+    }, reservedBuiltins());
+    expect(collisions).toEqual([
+      { name: 'lookup', sources: ['Webhook (lookup)', 'MCP (Server s1)'] },
+      { name: 'take_snapshot', sources: ['Webhook (take snapshot)', 'Built-in'] },
+      { name: 'search', sources: ['MCP (Server s2)', 'MCP (Server s3)'] },
+    ]);
+  });
+
+  it('resolves a collision once a prefix is set', () => {
+    const { collisions } = buildToolRegistry({
+      connections: [],
+      mcpServers: [mcpServer('s2', ['search'], 'a'), mcpServer('s3', ['search'], 'b')],
+    }, reservedBuiltins());
+    expect(collisions).toEqual([]);
+  });
+
+  it('reserves every builtin name', () => {
+    expect(reservedBuiltins().map(d => d.name)).toEqual(
+      ['start_camera_view', 'stop_camera_view', 'switch_camera', 'take_snapshot', 'start_screen_share', 'read_resource'],
+    );
+  });
+});
+
+describe('tool settings keys', () => {
+  it('survive renaming a webhook and changing an MCP prefix', () => {
+    const before = buildToolRegistry({ connections: [webhook('c1', 'lookup')], mcpServers: [mcpServer('s1', ['search'])] }, [{ name: 'take_snapshot' }]);
+    const after = buildToolRegistry({ connections: [webhook('c1', 'find')], mcpServers: [mcpServer('s1', ['search'], 'docs')] }, [{ name: 'take_snapshot' }]);
+    expect(before.entries.map(toolSettingsKey)).toEqual(['webhook:c1', 'mcp:s1:search', 'take_snapshot']);
+    expect(after.entries.map(toolSettingsKey)).toEqual(before.entries.map(toolSettingsKey));
+  });
+
+  it('are migrated from the tool names older settings used', () => {
+    const migrated = migrateToolSettingKeys({
+      connections: [webhook('c1', 'Get Weather'), webhook('c2', 'Send Mail')],
+      mcpServers: [mcpServer('s1', ['search'], 'docs')],
+      toolPolicies: { 'Get Weather': 'disabled', Send_Mail: 'ask', docs__search: 'ask', take_snapshot: 'disabled' },
+      toolTimeouts: { docs__search: 90 },
+    });
+    expect(migrated.toolPolicies).toEqual({ 'webhook:c1': 'disabled', 'webhook:c2': 'ask', 'mcp:s1:search': 'ask', take_snapshot: 'disabled' });
+    expect(migrated.toolTimeouts).toEqual({ 'mcp:s1:search': 90 });
+  });
+
+  it('leave migrated settings as they are', () => {
+    const settings = { connections: [webhook('c1', 'lookup')], toolPolicies: { 'webhook:c1': 'ask' }, toolTimeouts: {} };
+    expect(migrateToolSettingKeys(settings)).toEqual(settings);
+  });
+});
@@ -0,0 +1,129 @@
+import { FunctionDeclaration } from '@google/genai';
+import { Connection, McpServer } from '../components/SettingsPanel';
+import { ToolProvider, describeProvider } from './toolCalls';
+import { connectionToDeclaration } from './webhook';
+import { READ_RESOURCE_TOOL } from './mcpResources';
+
+// --- Tool Names ---
+// Every declared tool needs a name that is unique across providers and valid for Gemini:
+// letters, digits, underscores, dots, colons and dashes, starting with a letter or underscore,
+// at most 64 characters. MCP servers can add a prefix (`agentzero__send_message`) so two
+// servers exposing the same tool don't shadow each other; it is stripped before tools/call.
+
+const MAX_NAME_LENGTH = 64;
+const PREFIX_SEPARATOR = '__';
+
+export const BUILTIN_TOOL_NAMES = ['start_camera_view', 'stop_camera_view', 'switch_camera', 'take_snapshot', 'start_screen_share', READ_RESOURCE_TOOL];
+
+/** Rewrites `name` to Gemini's function name rules. */
+export const sanitizeToolName = (name: string): string => {
+  let sanitized = name.trim().replace(/[^A-Za-z0-9_.:-]/g, '_');
+  if (!/^[A-Za-z_]/.test(sanitized)) sanitized = '_' + sanitized;
+  return sanitized.slice(0, MAX_NAME_LENGTH);
+};
+
+/** Prefixes may only use letters, digits and underscores. */
+export const sanitizeToolPrefix = (prefix: string): string =>
+  prefix.trim().replace(/[^A-Za-z0-9_]/g, '_');
+
+/** The name Gemini sees for one of an MCP server's tools. */
+export const exposedMcpToolName = (server: Pick<McpServer, 'toolPrefix'>, toolName: string): string =>
+  sanitizeToolName(server.toolPrefix ? `${server.toolPrefix}${PREFIX_SEPARATOR}${toolName}` : toolName);
+
+/** The name Gemini sees for a webhook connection. */
+export const exposedWebhookToolName = (conn: Pick<Connection, 'name'>): string => sanitizeToolName(conn.name);
+
+export interface ToolEntry {
+  name: string; // As declared to Gemini
+  provider: ToolProvider;
+  declaration: FunctionDeclaration;
+}
+
+export interface ToolCollision {
+  name: string;
+  sources: string[]; // describeProvider of each tool that wants the name
+}
+
+/**
+ * Gathers every tool the settings declare, under its exposed name, and reports names claimed by
+ * more than one tool. Built-ins are passed in by the caller since only it knows their schemas.
+ */
+export const buildToolRegistry = (
+  settings: { connections: Connection[]; mcpServers?: McpServer[] },
+  builtins: FunctionDeclaration[] = [],
+): { entries: ToolEntry[]; collisions: ToolCollision[] } => {
+  const entries: ToolEntry[] = [];
+
+  for (const conn of settings.connections) {
+    const name = exposedWebhookToolName(conn);
+    entries.push({ name, provider: { kind: 'webhook', connectionId: conn.id, connectionName: conn.name }, declaration: { ...connectionToDeclaration(conn), name } });
+  }
+  for (const server of settings.mcpServers || []) {
+    for (const tool of server.tools || []) {
+      const toolName = tool.name || '';
+      const name = exposedMcpToolName(server, toolName);
+      entries.push({
+        name,
+        provider: { kind: 'mcp', serverId: server.id, serverName: server.name, toolName },
+        declaration: { ...tool, name },
+      });
+    }
+  }
+  for (const builtin of builtins) {
+    entries.push({ name: builtin.name || '', provider: { kind: 'builtin' }, declaration: builtin });
+  }
+
+  const byName = new Map<string, ToolEntry[]>();
+  for (const entry of entries) byName.set(entry.name, [...(byName.get(entry.name) || []), entry]);
+  const collisions = [...byName.entries()]
+    .filter(([, claimants]) => claimants.length > 1)
+    .map(([name, claimants]) => ({ name, sources: claimants.map(e => describeProvider(e.provider)) }));
+
+  return { entries, collisions };
+};
+
+/** Builtins aren't known to the Settings panel; reserve their names so collisions with them show up. */
+export const reservedBuiltins = (): FunctionDeclaration[] => BUILTIN_TOOL_NAMES.map(name => ({ name }));
+
+// --- Settings Keys ---
+// Policies and timeouts are saved under a key that survives renaming a webhook or changing an MCP
+// server's prefix, so a tool set to "ask first" or "disabled" can't silently fall back to "allow".
+// Builtins keep their names.
+
+export const webhookSettingsKey = (conn: Pick<Connection, 'id'>): string => `webhook:${conn.id}`;
+
+export const mcpToolSettingsKey = (serverId: string, toolName: string): string => `mcp:${serverId}:${toolName}`;
+
+export const toolSettingsKey = ({ name, provider }: Pick<ToolEntry, 'name' | 'provider'>): string => {
+  switch (provider.kind) {
+    case 'webhook': return webhookSettingsKey({ id: provider.connectionId });
+    case 'mcp': return mcpToolSettingsKey(provider.serverId, provider.toolName);
+    case 'builtin': return name;
+  }
+};
+
+type ToolSettings = { connections: Connection[]; mcpServers?: McpServer[]; toolPolicies?: Record<string, unknown>; toolTimeouts?: Record<string, number> };
+
+/**
+ * Moves policies and timeouts that older settings saved under tool names (a webhook's name as
+ * typed or as exposed, an MCP tool's exposed name) to their settings keys.
+ */
+export const migrateToolSettingKeys = <T extends ToolSettings>(settings: T): T => {
+  const moves: [from: string, to: string][] = [
+    ...settings.connections.flatMap(conn => [conn.name, exposedWebhookToolName(conn)].map(from => [from, webhookSettingsKey(conn)] as [string, string])),
+    ...(settings.mcpServers || []).flatMap(server => (server.tools || []).map(tool =>
+      [exposedMcpToolName(server, tool.name || ''), mcpToolSettingsKey(server.id, tool.name || '')] as [string, string])),
+  ];
+  const migrate = <V>(values: Record<string, V> | undefined): Record<string, V> | undefined => {
+    if (!values || !moves.some(([from]) => from in values)) return values;
+    const migrated = { ...values };
+    // Two tools may have shared an exposed name: both get its setting.
+    for (const [from, to] of moves) {
+      if (from in values && !(to in migrated)) migrated[to] = values[from];
+    }
+    // A name a builtin also had stays: it is that builtin's key too.
+    for (const [from] of moves) if (!BUILTIN_TOOL_NAMES.includes(from)) delete migrated[from];
+    return migrated;
+  };
+  return { ...settings, toolPolicies: migrate(settings.toolPolicies), toolTimeouts: migrate(settings.toolTimeouts) };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpokenConfirmation } from './toolPolicy';
+
+describe('parseSpokenConfirmation', () => {
+  it('reads short standalone answers', () => {
+    expect(parseSpokenConfirmation('Yes.')).toBe(true);
+    expect(parseSpokenConfirmation('okay, go ahead please')).toBe(true);
+    expect(parseSpokenConfirmation("D'accord")).toBe(true);
+    expect(parseSpokenConfirmation('No thanks')).toBe(false);
+    expect(parseSpokenConfirmation("Don't do it!")).toBe(false);
+    expect(parseSpokenConfirmation('do not do it')).toBe(false);
+  });
+
+  it('ignores answers inside a longer message', () => {
+    expect(parseSpokenConfirmation("ok, and what's the weather tomorrow?")).toBeNull();
+    expect(parseSpokenConfirmation('yes I think the other file is better')).toBeNull();
+    expect(parseSpokenConfirmation("I don't know")).toBeNull();
+    expect(parseSpokenConfirmation('tokyo')).toBeNull();
+  });
+
+  it('returns null when the text says both or neither', () => {
+    expect(parseSpokenConfirmation('no wait, yes')).toBeNull();
+    expect(parseSpokenConfirmation('um')).toBeNull();
+    expect(parseSpokenConfirmation('')).toBeNull();
+  });
+});
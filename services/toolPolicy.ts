@@ -0,0 +1,57 @@
+import { ToolProvider } from './toolCalls';
+
+// --- Tool Confirmation Policy ---
+// Each declared tool can run freely, wait for the user's approval, or be hidden from the model.
+// Policies are keyed by tool name; tools without an entry are allowed.
+
+export type ToolPolicy = 'allow' | 'ask' | 'disabled';
+
+export type ToolPolicies = Record<string, ToolPolicy>;
+
+export const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = {
+  allow: 'Always allow',
+  ask: 'Ask first',
+  disabled: 'Disabled',
+};
+
+export const getToolPolicy = (policies: ToolPolicies | undefined, name: string): ToolPolicy =>
+  policies?.[name] || 'allow';
+
+/** A tool call held back until the user approves or denies it. */
+export interface PendingConfirmation {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  provider: ToolProvider;
+  requestedAt: number;
+}
+
+// Answers are matched as whole words and phrases; "don't do it" is listed before "don't" so it
+// isn't read as "don't" + "do it". Filler words may surround an answer; anything else means the
+// text isn't one.
+const APPROVE_PHRASES = ['yes', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'alright', 'all right', 'fine', 'go ahead', 'do it', 'approved?', 'confirm(?:ed)?', 'allow(?:ed)?', 'oui', 'vas-y', "d'accord"];
+const DENY_PHRASES = ["don't do it", 'do not do it', "don't", 'do not', 'no', 'nope', 'cancel', 'stop', 'deny', 'denied', 'refuse', 'non', 'annule'];
+const FILLER_WORDS = ['please', 'thanks', 'thank you', 'merci', "that's", 'that is', 'it', 'so', 'well', 'um', 'uh', 'oh', 'ah', 'hmm', 'then'];
+const ANSWER_TOKEN = new RegExp(`^(?:(${APPROVE_PHRASES.join('|')})|(${DENY_PHRASES.join('|')})|(?:${FILLER_WORDS.join('|')}))(?![\\p{L}\\p{N}'-])\\s*`, 'u');
+
+/** How long after a prompt appears speech is ignored: it was probably started before the prompt. */
+export const CONFIRMATION_LISTEN_DELAY_MS = 1000;
+
+/**
+ * Reads an answer to a confirmation prompt: true to approve, false to deny, null when the text
+ * isn't a standalone yes or no (e.g. "okay, and what's the weather?") or says both ("no wait, yes").
+ */
+export const parseSpokenConfirmation = (text: string): boolean | null => {
+  let rest = text.toLowerCase().replace(/[’]/g, "'").replace(/[^\p{L}\p{N}' -]+/gu, ' ').trim();
+  let approve = false;
+  let deny = false;
+  while (rest) {
+    const match = ANSWER_TOKEN.exec(rest);
+    if (!match) return null;
+    approve ||= match[1] !== undefined;
+    deny ||= match[2] !== undefined;
+    rest = rest.slice(match[0].length);
+  }
+  if (approve === deny) return null;
+  return approve;
+};
@@ -0,0 +1,68 @@
+// --- Conversation Transcript ---
+// Pure helpers that fold Live API transcription chunks and tool calls into turn-by-turn entries.
+// Every helper returns a new array so they can be used directly in React state updaters.
+
+export type TranscriptRole = 'user' | 'model' | 'tool';
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  completedAt?: number; // When the response was sent back to the model
+}
+
+export interface TranscriptEntry {
+  id: string;
+  role: TranscriptRole;
+  text: string;
+  timestamp: number;
+  final: boolean; // No more text will be appended
+  interrupted?: boolean; // The user barged in before the model finished
+  toolCall?: TranscriptToolCall;
+}
+
+let entryCounter = 0;
+const nextEntryId = () => `t${Date.now()}-${entryCounter++}`;
+
+const finalize = (entry: TranscriptEntry, roles: TranscriptRole[]): TranscriptEntry =>
+  !entry.final && roles.includes(entry.role) ? { ...entry, final: true } : entry;
+
+/** Appends a transcription chunk to the open turn of `role`, or starts a new turn. */
+export const appendTranscription = (entries: TranscriptEntry[], role: 'user' | 'model', text: string): TranscriptEntry[] => {
+  if (!text) return entries;
+  const openIndex = entries.findIndex(e => e.role === role && !e.final);
+  if (openIndex !== -1) {
+    return entries.map((e, i) => (i === openIndex ? { ...e, text: e.text + text } : e));
+  }
+  // The model answering closes the user's turn, and vice versa.
+  const other: TranscriptRole = role === 'user' ? 'model' : 'user';
+  return [
+    ...entries.map(e => finalize(e, [other])),
+    { id: nextEntryId(), role, text, timestamp: Date.now(), final: false },
+  ];
+};
+
+/** Adds a typed message as a complete user turn. Typed turns are never appended to. */
+export const addTypedTurn = (entries: TranscriptEntry[], text: string): TranscriptEntry[] => [
+  ...entries.map(e => finalize(e, ['user', 'model'])),
+  { id: nextEntryId(), role: 'user', text, timestamp: Date.now(), final: true },
+];
+
+/** Adds a tool call to the transcript, inline with the conversation. */
+export const addToolCall = (entries: TranscriptEntry[], call: Omit<TranscriptToolCall, 'result' | 'completedAt'>): TranscriptEntry[] => [
+  ...entries.map(e => finalize(e, ['user'])),
+  { id: nextEntryId(), role: 'tool', text: call.name, timestamp: Date.now(), final: false, toolCall: call },
+];
+
+/** Records the response sent back for a tool call. */
+export const setToolResult = (entries: TranscriptEntry[], callId: string, result: unknown): TranscriptEntry[] =>
+  entries.map(e => (e.toolCall?.id === callId ? { ...e, final: true, toolCall: { ...e.toolCall, result, completedAt: Date.now() } } : e));
+
+/** Closes the current turn once the model is done. */
+export const completeTurn = (entries: TranscriptEntry[]): TranscriptEntry[] =>
+  entries.map(e => finalize(e, ['user', 'model']));
+
+/** Marks the model's open turn as interrupted; the user's turn stays open. */
+export const markInterrupted = (entries: TranscriptEntry[]): TranscriptEntry[] =>
+  entries.map(e => (e.role === 'model' && !e.final ? { ...e, final: true, interrupted: true } : e));
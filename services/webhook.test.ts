@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applySelector, buildWebhookRequest, callWebhook, parseSelector, renderTemplate, selectFromResponse } from './webhook';
+
+describe('renderTemplate', () => {
+  const args = { query: 'say "hi"\n', limit: 5, tags: ['a', 'b'], missing: null };
+
+  it('inserts whole-value placeholders in JSON as literals', () => {
+    const body = renderTemplate('{"q": "{{query}}", "n": {{limit}}, "tags": {{ tags }}, "x": "{{missing}}"}', args, 'json');
+    expect(JSON.parse(body)).toEqual({ q: 'say "hi"\n', n: 5, tags: ['a', 'b'], x: null });
+  });
+
+  it('escapes placeholders inside a longer JSON string without adding quotes', () => {
+    const body = renderTemplate('{"text": "Search for {{query}} ({{limit}} max, tags {{tags}}{{missing}})"}', args, 'json');
+    expect(JSON.parse(body)).toEqual({ text: 'Search for say "hi"\n (5 max, tags ["a","b"])' });
+  });
+
+  it('keeps escaped quotes in the template as part of the string', () => {
+    const body = renderTemplate('{"text": "a \\"{{limit}}\\" b", "n": {{limit}}}', args, 'json');
+    expect(JSON.parse(body)).toEqual({ text: 'a "5" b', n: 5 });
+  });
+
+  it('inserts values as text outside JSON', () => {
+    expect(renderTemplate('q={{query}}&n={{limit}}&t={{tags}}&m={{missing}}', args, 'text'))
+      .toBe('q=say "hi"\n&n=5&t=["a","b"]&m=');
+  });
+});
+
+describe('buildWebhookRequest', () => {
+  it('puts GET arguments in the query string, skipping those used in the URL', () => {
+    const request = buildWebhookRequest(
+      { url: 'https://api.test/users/{{ user }}/items?sort=new', method: 'GET' },
+      { user: 'a b/c', q: 'café & co', limit: 5, tags: ['x'], unset: null },
+    );
+    expect(request).toEqual({
+      url: 'https://api.test/users/a%20b%2Fc/items?sort=new&q=caf%C3%A9+%26+co&limit=5&tags=%5B%22x%22%5D',
+      method: 'GET',
+      headers: {},
+    });
+  });
+
+  it('URL-encodes placeholders and leaves missing ones empty', () => {
+    const request = buildWebhookRequest({ url: 'https://api.test/search/{{q}}/{{missing}}', method: 'DELETE' }, { q: '50% off?' });
+    expect(request.url).toBe('https://api.test/search/50%25%20off%3F/');
+    expect(request.body).toBeUndefined();
+  });
+
+  it('sends the arguments as JSON by default', () => {
+    const request = buildWebhookRequest({ url: 'https://api.test' }, { query: 'hi' });
+    expect(request).toEqual({ url: 'https://api.test', method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"query":"hi"}' });
+  });
+
+  it('infers the Content-Type from the body template', () => {
+    expect(buildWebhookRequest({ url: 'https://api.test', bodyTemplate: ' {"q": "{{query}}"}' }, { query: 'hi' }))
+      .toMatchObject({ headers: { 'Content-Type': 'application/json' }, body: ' {"q": "hi"}' });
+    expect(buildWebhookRequest({ url: 'https://api.test', method: 'PUT', bodyTemplate: 'q={{query}}' }, { query: 'hi' }))
+      .toMatchObject({ method: 'PUT', headers: { 'Content-Type': 'text/plain' }, body: 'q=hi' });
+  });
+
+  it('keeps an existing Content-Type header whatever its case', () => {
+    const request = buildWebhookRequest({
+      url: 'https://api.test',
+      headers: [{ name: ' content-type ', value: 'text/plain' }, { name: '', value: 'ignored' }],
+      bodyTemplate: '{"q": "{{query}}"}',
+    }, { query: 'a"b' });
+    expect(request.headers).toEqual({ 'content-type': 'text/plain' });
+    // Not a JSON content type, so the value is inserted as text.
+    expect(request.body).toBe('{"q": "a"b"}');
+
+    const json = buildWebhookRequest({ url: 'https://api.test', headers: [{ name: 'CONTENT-TYPE', value: 'application/vnd.api+json' }] }, { query: 'x' });
+    expect(json.headers).toEqual({ 'CONTENT-TYPE': 'application/vnd.api+json' });
+  });
+});
+
+describe('response selectors', () => {
+  const data = { data: { items: [{ title: 'first', 'a key': 1 }, { title: 'second' }, { title: 'last' }] }, $meta: { n: 3 } };
+
+  it('parses keys, indexes, quoted keys and wildcards', () => {
+    expect(parseSelector(`$.data.items[-1]['a key']["x.y"][*].*`)).toEqual([
+      { kind: 'key', key: 'data' },
+      { kind: 'key', key: 'items' },
+      { kind: 'index', index: -1 },
+      { kind: 'key', key: 'a key' },
+      { kind: 'key', key: 'x.y' },
+      { kind: 'wildcard' },
+      { kind: 'wildcard' },
+    ]);
+    expect(parseSelector('data.items')).toEqual([{ kind: 'key', key: 'data' }, { kind: 'key', key: 'items' }]);
+  });
+
+  it('rejects invalid selectors', () => {
+    expect(() => parseSelector('$.data[')).toThrow("Invalid response selector near '['.");
+    expect(() => parseSelector('$..items')).toThrow(/Invalid response selector/);
+    expect(() => parseSelector("$['unterminated")).toThrow(/Invalid response selector/);
+  });
+
+  it('selects by key, quoted key and index, counting negative indexes from the end', () => {
+    expect(applySelector(data, '$.data.items[0].title')).toBe('first');
+    expect(applySelector(data, "$.data.items[0]['a key']")).toBe(1);
+    expect(applySelector(data, '$.data.items[-1].title')).toBe('last');
+    expect(applySelector(data, '$.$meta.n')).toBe(3);
+    expect(applySelector(data, '$.data.items[5].title')).toBeUndefined();
+    expect(applySelector(data, '$')).toBe(data);
+  });
+
+  it('collects every match of a wildcard into an array', () => {
+    expect(applySelector(data, '$.data.items[*].title')).toEqual(['first', 'second', 'last']);
+    expect(applySelector(data, '$.data.items[0].*')).toEqual(['first', 1]);
+    expect(applySelector(data, '$.missing[*]')).toEqual([]);
+  });
+
+  it('returns the selected text for the model', () => {
+    const body = JSON.stringify(data);
+    expect(selectFromResponse(body, '$.data.items[1].title')).toBe('second');
+    expect(selectFromResponse(body, '$.$meta')).toBe('{"n":3}');
+    expect(selectFromResponse('plain text', undefined)).toBe('plain text');
+    expect(selectFromResponse('plain text', '  ')).toBe('plain text');
+  });
+
+  it('fails on non-JSON responses and on selectors that match nothing', () => {
+    expect(() => selectFromResponse('<html>Bad gateway</html>', '$.data')).toThrow("The response is not JSON, so the selector '$.data' cannot be applied.");
+    expect(() => selectFromResponse('{"data": {}}', '$.data.items')).toThrow("The response selector '$.data.items' matched nothing.");
+  });
+});
+
+describe('callWebhook', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps HTTP error messages short', async () => {
+    const page = `<html>${'x'.repeat(2000)}</html>`;
+    vi.stubGlobal('fetch', async () => new Response(page, { status: 502, statusText: 'Bad Gateway' }));
+    await expect(callWebhook({ url: 'https://api.test' }, { query: 'hi' }))
+      .rejects.toThrow(new Error(`HTTP 502 Bad Gateway: ${page.slice(0, 500)}… (${page.length} characters)`));
+  });
+
+  it('reports the status alone when the error has no body', async () => {
+    vi.stubGlobal('fetch', async () => new Response('', { status: 404, statusText: 'Not Found' }));
+    await expect(callWebhook({ url: 'https://api.test' }, {})).rejects.toThrow(/^HTTP 404 Not Found$/);
+  });
+});
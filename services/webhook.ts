@@ -0,0 +1,280 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+
+// --- Webhook Connections ---
+// A webhook connection declares its own typed parameters to Gemini, then turns the model's
+// arguments into an HTTP request: method, headers, a URL and body template with {{name}}
+// placeholders, and an optional JSONPath-style selector applied to the response.
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export type WebhookParameterType = 'string' | 'number' | 'integer' | 'boolean';
+export const WEBHOOK_PARAMETER_TYPES: WebhookParameterType[] = ['string', 'number', 'integer', 'boolean'];
+
+export interface WebhookParameter {
+  name: string;
+  type: WebhookParameterType;
+  description: string;
+  required: boolean;
+  enum?: string[]; // Allowed values, strings only
+}
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+/** The request side of a connection. Every field but `url` is optional so older saved connections keep working. */
+export interface WebhookRequestConfig {
+  url: string;
+  method?: HttpMethod; // Defaults to POST
+  headers?: WebhookHeader[];
+  parameters?: WebhookParameter[]; // Defaults to a single `query` string
+  bodyTemplate?: string; // Defaults to the arguments as JSON
+  responseSelector?: string; // e.g. $.data.items[0].title
+}
+
+export const DEFAULT_WEBHOOK_PARAMETERS: WebhookParameter[] = [
+  { name: 'query', type: 'string', description: "The user's complete and exact request.", required: true },
+];
+
+const PARAMETER_TYPES: Record<WebhookParameterType, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const METHODS_WITH_BODY: HttpMethod[] = ['POST', 'PUT', 'PATCH'];
+
+export const getWebhookParameters = (config: Pick<WebhookRequestConfig, 'parameters'>): WebhookParameter[] =>
+  config.parameters || DEFAULT_WEBHOOK_PARAMETERS;
+
+/** Builds the function declaration Gemini sees for a connection. */
+export const connectionToDeclaration = (connection: { name: string; description: string; parameters?: WebhookParameter[] }): FunctionDeclaration => {
+  const parameters = getWebhookParameters(connection);
+  const declaration: FunctionDeclaration = { name: connection.name, description: connection.description };
+  if (parameters.length === 0) return declaration;
+
+  const properties: Record<string, Schema> = {};
+  for (const param of parameters) {
+    const schema: Schema = { type: PARAMETER_TYPES[param.type] };
+    if (param.description) schema.description = param.description;
+    if (param.type === 'string' && param.enum && param.enum.length > 0) {
+      schema.enum = param.enum;
+      schema.format = 'enum';
+    }
+    properties[param.name] = schema;
+  }
+  declaration.parameters = {
+    type: Type.OBJECT,
+    properties,
+    required: parameters.filter(p => p.required).map(p => p.name),
+  };
+  return declaration;
+};
+
+/** Example arguments for testing a connection: the test prompt for strings, neutral values otherwise. */
+export const sampleWebhookArgs = (config: Pick<WebhookRequestConfig, 'parameters'>, prompt: string): Record<string, unknown> => {
+  const args: Record<string, unknown> = {};
+  for (const param of getWebhookParameters(config)) {
+    if (param.enum && param.enum.length > 0) args[param.name] = param.enum[0];
+    else if (param.type === 'string') args[param.name] = prompt;
+    else if (param.type === 'boolean') args[param.name] = false;
+    else args[param.name] = 0;
+  }
+  return args;
+};
+
+// --- Templates ---
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+// Sticky versions for the JSON scanner: a placeholder that is a whole string, and one anywhere.
+const WHOLE_STRING_PLACEHOLDER_AT = /"\{\{\s*([\w.-]+)\s*\}\}"/y;
+const PLACEHOLDER_AT = /\{\{\s*([\w.-]+)\s*\}\}/y;
+
+const isJsonContentType = (contentType: string) => /json/i.test(contentType);
+
+const placeholderText = (value: unknown): string =>
+  value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Walks the template tracking whether it is inside a JSON string, since a placeholder there needs
+// its value escaped into the string rather than inserted as a literal.
+const renderJsonTemplate = (template: string, args: Record<string, unknown>): string => {
+  let out = '';
+  let inString = false;
+  let i = 0;
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(template);
+  };
+  while (i < template.length) {
+    const placeholder = (!inString && matchAt(WHOLE_STRING_PLACEHOLDER_AT)) || matchAt(PLACEHOLDER_AT);
+    if (placeholder) {
+      const value = args[placeholder[1]];
+      out += inString ? JSON.stringify(placeholderText(value)).slice(1, -1) : JSON.stringify(value ?? null);
+      i += placeholder[0].length;
+      continue;
+    }
+    const char = template[i];
+    if (inString && char === '\\') {
+      out += template.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === '"') inString = !inString;
+    out += char;
+    i++;
+  }
+  return out;
+};
+
+/**
+ * Fills {{name}} placeholders with the model's arguments. In JSON bodies a placeholder that is a
+ * whole value (`"{{query}}"` or `{{limit}}`) becomes a JSON literal, and one inside a longer
+ * string (`"Hello {{name}}"`) is escaped into it; elsewhere values are inserted as text.
+ */
+export const renderTemplate = (template: string, args: Record<string, unknown>, format: 'json' | 'text'): string => {
+  if (format === 'json') return renderJsonTemplate(template, args);
+  return template.replace(PLACEHOLDER, (_match, name: string) => placeholderText(args[name]));
+};
+
+export interface WebhookRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** Turns a tool call's arguments into the HTTP request for a connection. */
+export const buildWebhookRequest = (config: WebhookRequestConfig, args: Record<string, unknown>): WebhookRequest => {
+  const method = config.method || 'POST';
+  const headers: Record<string, string> = {};
+  for (const header of config.headers || []) {
+    if (header.name.trim()) headers[header.name.trim()] = header.value;
+  }
+  const contentTypeKey = Object.keys(headers).find(k => k.toLowerCase() === 'content-type');
+
+  // Placeholders in the URL are URL-encoded; those arguments aren't repeated in the query string.
+  const usedInUrl = new Set<string>();
+  let url = config.url.replace(PLACEHOLDER, (_match, name: string) => {
+    usedInUrl.add(name);
+    const value = args[name];
+    return encodeURIComponent(value === undefined || value === null ? '' : String(value));
+  });
+
+  if (!METHODS_WITH_BODY.includes(method)) {
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(args)) {
+      if (usedInUrl.has(name) || value === undefined || value === null) continue;
+      query.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+    const queryString = query.toString();
+    if (queryString) url += (url.includes('?') ? '&' : '?') + queryString;
+    return { url, method, headers };
+  }
+
+  let body: string;
+  if (config.bodyTemplate && config.bodyTemplate.trim()) {
+    const trimmed = config.bodyTemplate.trim();
+    if (!contentTypeKey) headers['Content-Type'] = trimmed.startsWith('{') || trimmed.startsWith('[') ? 'application/json' : 'text/plain';
+    const contentType = headers[contentTypeKey || 'Content-Type'];
+    body = renderTemplate(config.bodyTemplate, args, isJsonContentType(contentType) ? 'json' : 'text');
+  } else {
+    if (!contentTypeKey) headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(args);
+  }
+  return { url, method, headers, body };
+};
+
+// --- Response Selector ---
+
+type SelectorStep = { kind: 'key'; key: string } | { kind: 'index'; index: number } | { kind: 'wildcard' };
+
+const SELECTOR_TOKEN = /^(?:\.([A-Za-z_$][\w$-]*)|\.\*|\[\*\]|\[(-?\d+)\]|\['([^']*)'\]|\["([^"]*)"\])/;
+
+/** Parses `$.a.b[0]['c d'][*]` into steps. Throws on anything else. */
+export const parseSelector = (selector: string): SelectorStep[] => {
+  let rest = selector.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = '.' + rest; // Allow "data.items"
+
+  const steps: SelectorStep[] = [];
+  while (rest) {
+    const match = SELECTOR_TOKEN.exec(rest);
+    if (!match) throw new Error(`Invalid response selector near '${rest}'.`);
+    const [token, key, index, singleQuoted, doubleQuoted] = match;
+    if (key !== undefined) steps.push({ kind: 'key', key });
+    else if (index !== undefined) steps.push({ kind: 'index', index: Number(index) });
+    else if (singleQuoted !== undefined || doubleQuoted !== undefined) steps.push({ kind: 'key', key: (singleQuoted ?? doubleQuoted) as string });
+    else steps.push({ kind: 'wildcard' });
+    rest = rest.slice(token.length);
+  }
+  return steps;
+};
+
+/** Applies a selector to parsed JSON. Wildcards collect every match into an array. */
+export const applySelector = (data: unknown, selector: string): unknown => {
+  const steps = parseSelector(selector);
+  let nodes: unknown[] = [data];
+  for (const step of steps) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== 'object') continue;
+      if (step.kind === 'wildcard') {
+        next.push(...(Array.isArray(node) ? node : Object.values(node)));
+      } else if (step.kind === 'index') {
+        if (Array.isArray(node)) {
+          const value = node[step.index < 0 ? node.length + step.index : step.index];
+          if (value !== undefined) next.push(value);
+        }
+      } else if (Object.prototype.hasOwnProperty.call(node, step.key)) {
+        next.push((node as Record<string, unknown>)[step.key]);
+      }
+    }
+    nodes = next;
+  }
+  if (steps.some(s => s.kind === 'wildcard')) return nodes;
+  return nodes[0];
+};
+
+/** Extracts the selected part of a response body as text for the model. */
+export const selectFromResponse = (responseText: string, selector: string | undefined): string => {
+  if (!selector || !selector.trim()) return responseText;
+  let data: unknown;
+  try {
+    data = JSON.parse(responseText);
+  } catch {
+    throw new Error(`The response is not JSON, so the selector '${selector}' cannot be applied.`);
+  }
+  const selected = applySelector(data, selector);
+  if (selected === undefined) throw new Error(`The response selector '${selector}' matched nothing.`);
+  return typeof selected === 'string' ? selected : JSON.stringify(selected);
+};
+
+export interface WebhookResult {
+  request: WebhookRequest;
+  status: number;
+  rawResponse: string;
+  result: string; // What the model receives
+}
+
+// Error bodies go to the model and the inspector: an HTML error page or a huge JSON error
+// shouldn't fill the model's context.
+const MAX_ERROR_BODY_CHARS = 500;
+
+const describeHttpError = (response: Response, rawResponse: string): string => {
+  const status = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+  const body = rawResponse.trim();
+  if (!body) return status;
+  return `${status}: ${body.length > MAX_ERROR_BODY_CHARS ? `${body.slice(0, MAX_ERROR_BODY_CHARS)}… (${body.length} characters)` : body}`;
+};
+
+/** Calls a connection with the model's arguments. HTTP errors and selector misses throw. */
+export const callWebhook = async (config: WebhookRequestConfig, args: Record<string, unknown>, signal?: AbortSignal): Promise<WebhookResult> => {
+  const request = buildWebhookRequest(config, args);
+  const response = await fetch(request.url, { method: request.method, headers: request.headers, body: request.body, signal });
+  const rawResponse = await response.text();
+  if (!response.ok) throw new Error(describeHttpError(response, rawResponse));
+  return { request, status: response.status, rawResponse, result: selectFromResponse(rawResponse, config.responseSelector) };
+};
@@ -22,8 +22,10 @@ export default defineConfig(({ mode }) => {
               proxyRes.headers['x-accel-buffering'] = 'no';
               proxyRes.headers['cache-control'] = 'no-cache';
               proxyRes.headers['access-control-allow-origin'] = '*';
-              proxyRes.headers['access-control-allow-methods'] = 'GET, POST, OPTIONS';
-              proxyRes.headers['access-control-allow-headers'] = 'Content-Type, Authorization';
+              proxyRes.headers['access-control-allow-methods'] = 'GET, POST, DELETE, OPTIONS';
+              proxyRes.headers['access-control-allow-headers'] = 'Content-Type, Authorization, Accept, Mcp-Session-Id, MCP-Protocol-Version';
+              // Streamable HTTP: the client must be able to read the session id
+              proxyRes.headers['access-control-expose-headers'] = 'Mcp-Session-Id';
             });
           },
         }